@@ -0,0 +1,20 @@
+import { TelegramCommandArgOptions } from '../interfaces';
+import { TELEGRAM_COMMAND_ARG_METADATA } from '../telegram.constants';
+import { TelegramCommandArgMetadata } from '../telegram.command';
+
+/**
+ * Receives the next argument of the command in a class used with `@CommandArgs()`.
+ * Arguments are assigned in the order the properties are declared.
+ */
+export const CommandArg =
+  (options: TelegramCommandArgOptions = {}): PropertyDecorator =>
+  (target, property) => {
+    const properties: TelegramCommandArgMetadata[] =
+      Reflect.getMetadata(TELEGRAM_COMMAND_ARG_METADATA, target.constructor) ||
+      [];
+    Reflect.defineMetadata(
+      TELEGRAM_COMMAND_ARG_METADATA,
+      [...properties, { ...options, property: property.toString() }],
+      target.constructor,
+    );
+  };
@@ -0,0 +1,28 @@
+import { PipeTransform, Type } from '@nestjs/common';
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+import { assignTelegramParamMetadata } from './telegram-param.decorator';
+
+/**
+ * Injects the arguments of the command into a handler parameter: the list of
+ * arguments, or an object whose `@CommandArg()` properties receive them, ready
+ * to be validated by pipes like the `ValidationPipe`.
+ *
+ * ```typescript
+ * @OnCommand('remind')
+ * remind(@CommandArgs(new ValidationPipe({ transform: true })) args: RemindArgs) {}
+ * ```
+ */
+export const CommandArgs =
+  (...pipes: (Type<PipeTransform> | PipeTransform)[]): ParameterDecorator =>
+  (target, key, index) => {
+    // the arguments are mapped onto the type before any pipe, global ones included, sees them
+    const paramtypes = Reflect.getMetadata('design:paramtypes', target, key);
+    assignTelegramParamMetadata(
+      target,
+      key,
+      index,
+      TelegramParamtype.COMMAND_ARGS,
+      paramtypes?.[index],
+      pipes,
+    );
+  };
@@ -0,0 +1,7 @@
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+import { createTelegramParamDecorator } from './telegram-param.decorator';
+
+/**
+ * Injects the `TelegramContext` of the update into a handler parameter.
+ */
+export const Ctx = createTelegramParamDecorator(TelegramParamtype.CONTEXT);
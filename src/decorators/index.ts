@@ -0,0 +1,17 @@
+export * from './command-arg.decorator';
+export * from './command-args.decorator';
+export * from './ctx.decorator';
+export * from './inject-telegram.decorator';
+export * from './on-callback-query.decorator';
+export * from './on-command.decorator';
+export * from './on-inline-query.decorator';
+export * from './on-message.decorator';
+export * from './on-text.decorator';
+export * from './on-update.decorator';
+export * from './session.decorator';
+export * from './telegram-hook.decorator';
+export * from './telegram-update.decorator';
+export * from './telegram-wizard.decorator';
+export * from './update-payload.decorator';
+export * from './wizard-step.decorator';
+export * from './wizard.decorator';
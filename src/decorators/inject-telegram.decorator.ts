@@ -0,0 +1,8 @@
+import { Inject } from '@nestjs/common';
+import { getTelegramToken } from '../telegram.tokens';
+
+/**
+ * Injects the `TelegramService` of the bot registered with `TelegramModule.forRoot({ name })`,
+ * or of the bot registered without a name when none is given.
+ */
+export const InjectTelegram = (name?: string) => Inject(getTelegramToken(name));
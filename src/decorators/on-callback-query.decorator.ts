@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the callback queries whose data starts with the given prefix or matches the given pattern,
+ * or every callback query when none is given.
+ */
+export const OnCallbackQuery = (data?: string | RegExp): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'callback_query',
+    filter: data,
+  });
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the messages starting with one of the given commands, written without the leading slash.
+ */
+export const OnCommand = (command: string | string[]): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'command',
+    filter: command,
+  });
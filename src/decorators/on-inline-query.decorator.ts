@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the inline queries equal to the given string or matching the given pattern,
+ * or every inline query when none is given.
+ */
+export const OnInlineQuery = (query?: string | RegExp): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'inline_query',
+    filter: query,
+  });
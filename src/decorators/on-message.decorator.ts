@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { TelegramMessageKind } from '../interfaces/telegramTypes.interface';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the new messages of the given kind, e.g. `'photo'`, or every new message when none is given.
+ * A kind matches whenever the message has its field, so `'document'` also matches animations.
+ */
+export const OnMessage = (kind?: TelegramMessageKind): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'message',
+    filter: kind,
+  });
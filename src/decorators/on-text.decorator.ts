@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the text messages equal to the given string or matching the given pattern.
+ */
+export const OnText = (text: string | RegExp): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'text',
+    filter: text,
+  });
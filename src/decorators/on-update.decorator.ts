@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { TelegramHandlerMetadata } from '../interfaces';
+import { UpdateType } from '../interfaces/telegramTypes.interface';
+import { TELEGRAM_HANDLER_METADATA } from '../telegram.constants';
+
+/**
+ * Handles the updates having the given field, e.g. `'channel_post'`, or every update when none is given.
+ */
+export const OnUpdate = (updateType?: UpdateType): MethodDecorator =>
+  SetMetadata<string, TelegramHandlerMetadata>(TELEGRAM_HANDLER_METADATA, {
+    type: 'update',
+    filter: updateType,
+  });
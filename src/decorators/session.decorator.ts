@@ -0,0 +1,8 @@
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+import { createTelegramParamDecorator } from './telegram-param.decorator';
+
+/**
+ * Injects the session of the update into a handler parameter. Changes made to it are saved
+ * once the handler completes.
+ */
+export const Session = createTelegramParamDecorator(TelegramParamtype.SESSION);
@@ -0,0 +1,16 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  TELEGRAM_BOT_METADATA,
+  TELEGRAM_HOOK_METADATA,
+} from '../telegram.constants';
+
+/**
+ * Marks a provider implementing `TelegramCallHook`, to run before and after every Bot API call
+ * once the module is initialized. Like `@TelegramUpdate()`, it belongs to the bot registered
+ * without a name unless a bot name is given.
+ */
+export const TelegramHook = (bot?: string): ClassDecorator =>
+  applyDecorators(
+    SetMetadata(TELEGRAM_HOOK_METADATA, true),
+    SetMetadata(TELEGRAM_BOT_METADATA, bot),
+  );
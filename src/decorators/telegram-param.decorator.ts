@@ -0,0 +1,40 @@
+import { assignMetadata, ParamData, PipeTransform, Type } from '@nestjs/common';
+import { TELEGRAM_PARAM_ARGS_METADATA } from '../telegram.constants';
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+
+export function createTelegramParamDecorator(
+  paramtype: TelegramParamtype,
+): (...pipes: (Type<PipeTransform> | PipeTransform)[]) => ParameterDecorator {
+  return (...pipes) =>
+    (target, key, index) =>
+      assignTelegramParamMetadata(
+        target,
+        key,
+        index,
+        paramtype,
+        undefined,
+        pipes,
+      );
+}
+
+export function assignTelegramParamMetadata(
+  target: object,
+  key: string | symbol,
+  index: number,
+  paramtype: TelegramParamtype,
+  data: ParamData | undefined,
+  pipes: (Type<PipeTransform> | PipeTransform)[],
+) {
+  const args =
+    Reflect.getMetadata(
+      TELEGRAM_PARAM_ARGS_METADATA,
+      target.constructor,
+      key,
+    ) || {};
+  Reflect.defineMetadata(
+    TELEGRAM_PARAM_ARGS_METADATA,
+    assignMetadata(args, paramtype, index, data, ...pipes),
+    target.constructor,
+    key,
+  );
+}
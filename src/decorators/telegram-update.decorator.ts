@@ -0,0 +1,17 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  TELEGRAM_BOT_METADATA,
+  TELEGRAM_UPDATE_METADATA,
+} from '../telegram.constants';
+
+/**
+ * Marks a provider whose methods handle the updates the bot receives,
+ * with decorators like `@OnCommand()` or `@OnCallbackQuery()`. Pass the name
+ * of a bot registered with `TelegramModule.forRoot({ name })` to handle its
+ * updates instead of those of the bot registered without a name.
+ */
+export const TelegramUpdate = (bot?: string): ClassDecorator =>
+  applyDecorators(
+    SetMetadata(TELEGRAM_UPDATE_METADATA, true),
+    SetMetadata(TELEGRAM_BOT_METADATA, bot),
+  );
@@ -0,0 +1,16 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  TELEGRAM_BOT_METADATA,
+  TELEGRAM_WIZARD_METADATA,
+} from '../telegram.constants';
+
+/**
+ * Marks a provider whose `@WizardStep()` methods handle, one after the other, the updates of
+ * a chat or user that entered the wizard with `ctx.enterWizard(name)`. Like `@TelegramUpdate()`,
+ * the wizard belongs to the bot registered without a name unless a bot name is given.
+ */
+export const TelegramWizard = (name: string, bot?: string): ClassDecorator =>
+  applyDecorators(
+    SetMetadata(TELEGRAM_WIZARD_METADATA, name),
+    SetMetadata(TELEGRAM_BOT_METADATA, bot),
+  );
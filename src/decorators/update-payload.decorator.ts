@@ -0,0 +1,9 @@
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+import { createTelegramParamDecorator } from './telegram-param.decorator';
+
+/**
+ * Injects the raw `Update` into a handler parameter, optionally transformed by pipes.
+ */
+export const UpdatePayload = createTelegramParamDecorator(
+  TelegramParamtype.UPDATE,
+);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { TELEGRAM_WIZARD_STEP_METADATA } from '../telegram.constants';
+
+/**
+ * Makes the method a step of the wizard, steps run in the order of their numbers.
+ */
+export const WizardStep = (step: number): MethodDecorator =>
+  SetMetadata(TELEGRAM_WIZARD_STEP_METADATA, step);
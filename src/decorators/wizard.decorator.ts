@@ -0,0 +1,7 @@
+import { TelegramParamtype } from '../telegram-paramtype.enum';
+import { createTelegramParamDecorator } from './telegram-param.decorator';
+
+/**
+ * Injects the `TelegramWizardContext` of the wizard the chat or user is in into a handler parameter.
+ */
+export const Wizard = createTelegramParamDecorator(TelegramParamtype.WIZARD);
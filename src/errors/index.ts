@@ -0,0 +1,8 @@
+export * from './telegram-chat-migrated.error';
+export * from './telegram-conflict.error';
+export * from './telegram-error.factory';
+export * from './telegram-forbidden.error';
+export * from './telegram-network.error';
+export * from './telegram-not-found.error';
+export * from './telegram-rate-limit.error';
+export * from './telegram-unauthorized.error';
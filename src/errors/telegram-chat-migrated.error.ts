@@ -0,0 +1,28 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The group was upgraded to a supergroup and must be addressed by its new identifier.
+ */
+export class TelegramChatMigratedError extends TelegramException {
+  /**
+   * Identifier of the supergroup the group was migrated to
+   */
+  readonly migrateToChatId: number;
+
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(
+      response.description,
+      response.error_code.toString(),
+      response,
+      context,
+    );
+    this.migrateToChatId = response.parameters.migrate_to_chat_id;
+  }
+}
@@ -0,0 +1,17 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The call clashes with another consumer of the bot (409), e.g. a second `getUpdates` loop or an active webhook.
+ */
+export class TelegramConflictError extends TelegramException {
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(response.description, '409', response, context);
+  }
+}
@@ -0,0 +1,95 @@
+import { TelegramException } from '../interfaces/telegramTypes.interface';
+import {
+  createTelegramError,
+  createTelegramResponseError,
+  TelegramChatMigratedError,
+  TelegramConflictError,
+  TelegramForbiddenError,
+  TelegramNetworkError,
+  TelegramNotFoundError,
+  TelegramRateLimitError,
+  TelegramUnauthorizedError,
+} from '.';
+
+const context = { method: 'sendMessage', params: { chat_id: 1, text: 'hi' } };
+
+const failed = (error_code: number, parameters?: any) => ({
+  ok: false,
+  error_code,
+  description: `Error ${error_code}`,
+  parameters,
+});
+
+describe('telegram errors', () => {
+  describe('createTelegramResponseError', () => {
+    it.each([
+      [401, TelegramUnauthorizedError],
+      [403, TelegramForbiddenError],
+      [404, TelegramNotFoundError],
+      [409, TelegramConflictError],
+      [429, TelegramRateLimitError],
+    ])('should map error code %d to its own class', (code, errorClass) => {
+      const error = createTelegramResponseError(failed(code), context);
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(TelegramException);
+    });
+    it('should expose the response and the failed call', () => {
+      const response = failed(429, { retry_after: 7 });
+      const error = createTelegramResponseError(response, context);
+      expect(error.errorCode).toBe(429);
+      expect(error.description).toBe('Error 429');
+      expect(error.parameters).toEqual({ retry_after: 7 });
+      expect(error.telegramResponse).toBe(response);
+      expect(error.method).toBe('sendMessage');
+      expect(error.params).toBe(context.params);
+      expect((error as TelegramRateLimitError).retryAfter).toBe(7);
+    });
+    it('should recognize a migrated chat', () => {
+      const error = createTelegramResponseError(
+        failed(400, { migrate_to_chat_id: -100123 }),
+        context,
+      );
+      expect(error).toBeInstanceOf(TelegramChatMigratedError);
+      expect((error as TelegramChatMigratedError).migrateToChatId).toBe(
+        -100123,
+      );
+    });
+    it('should fall back to TelegramException for other codes', () => {
+      const error = createTelegramResponseError(failed(400), context);
+      expect(error.constructor).toBe(TelegramException);
+      expect(error.message).toBe('Error 400');
+    });
+  });
+  describe('createTelegramError', () => {
+    it('should keep a TelegramException as is', () => {
+      const error = new TelegramForbiddenError(failed(403));
+      expect(createTelegramError(error, context)).toBe(error);
+    });
+    it('should read the Telegram response of an axios error', () => {
+      const error = createTelegramError(
+        { isAxiosError: true, response: { status: 403, data: failed(403) } },
+        context,
+      );
+      expect(error).toBeInstanceOf(TelegramForbiddenError);
+      expect(error.method).toBe('sendMessage');
+    });
+    it('should use the HTTP status when the body is not from Telegram', () => {
+      const error = createTelegramError(
+        {
+          isAxiosError: true,
+          message: 'Bad Gateway',
+          response: { status: 502 },
+        },
+        context,
+      );
+      expect(error.errorCode).toBe(502);
+    });
+    it('should report requests without an answer as network errors', () => {
+      const cause = { isAxiosError: true, message: 'socket hang up' };
+      const error = createTelegramError(cause, context);
+      expect(error).toBeInstanceOf(TelegramNetworkError);
+      expect(error.message).toBe('socket hang up');
+      expect(error.cause).toBe(cause);
+    });
+  });
+});
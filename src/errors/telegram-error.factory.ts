@@ -0,0 +1,69 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+import { TelegramRateLimitError } from './telegram-rate-limit.error';
+import { TelegramUnauthorizedError } from './telegram-unauthorized.error';
+import { TelegramForbiddenError } from './telegram-forbidden.error';
+import { TelegramNotFoundError } from './telegram-not-found.error';
+import { TelegramConflictError } from './telegram-conflict.error';
+import { TelegramChatMigratedError } from './telegram-chat-migrated.error';
+import { TelegramNetworkError } from './telegram-network.error';
+
+/**
+ * Turns a failed response sent by Telegram into the matching exception.
+ */
+export function createTelegramResponseError(
+  response: TelegramResponse<unknown>,
+  context?: TelegramErrorContext,
+): TelegramException {
+  if (response.parameters?.migrate_to_chat_id) {
+    return new TelegramChatMigratedError(response, context);
+  }
+  switch (response.error_code) {
+    case 401:
+      return new TelegramUnauthorizedError(response, context);
+    case 403:
+      return new TelegramForbiddenError(response, context);
+    case 404:
+      return new TelegramNotFoundError(response, context);
+    case 409:
+      return new TelegramConflictError(response, context);
+    case 429:
+      return new TelegramRateLimitError(response, context);
+    default:
+      return new TelegramException(
+        response.description,
+        response.error_code?.toString(),
+        response,
+        context,
+      );
+  }
+}
+
+/**
+ * Turns anything a Bot API call failed with into a `TelegramException`.
+ */
+export function createTelegramError(
+  error: any,
+  context?: TelegramErrorContext,
+): TelegramException {
+  if (error instanceof TelegramException) {
+    return error;
+  }
+  const response = error?.response;
+  if (response?.data?.ok === false) {
+    return createTelegramResponseError(response.data, context);
+  }
+  if (response) {
+    return createTelegramResponseError(
+      { ok: false, error_code: response.status, description: error.message },
+      context,
+    );
+  }
+  if (error?.isAxiosError) {
+    return new TelegramNetworkError(error.message, context, error);
+  }
+  return new TelegramException(error?.message, undefined, undefined, context);
+}
@@ -0,0 +1,17 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The bot may not act in the chat (403), e.g. it was blocked by the user or kicked from the group.
+ */
+export class TelegramForbiddenError extends TelegramException {
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(response.description, '403', response, context);
+  }
+}
@@ -0,0 +1,14 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The call never got an answer from Telegram, e.g. the connection was refused, reset or timed out.
+ */
+export class TelegramNetworkError extends TelegramException {
+  constructor(message: string, context?: TelegramErrorContext, cause?: Error) {
+    super(message, 'Network Error', undefined, context);
+    this.cause = cause;
+  }
+}
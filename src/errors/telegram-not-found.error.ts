@@ -0,0 +1,17 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The method or the object it refers to does not exist (404).
+ */
+export class TelegramNotFoundError extends TelegramException {
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(response.description, '404', response, context);
+  }
+}
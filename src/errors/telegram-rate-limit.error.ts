@@ -0,0 +1,23 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * Telegram's flood control rejected the call (429).
+ */
+export class TelegramRateLimitError extends TelegramException {
+  /**
+   * Number of seconds left to wait before the call can be repeated
+   */
+  readonly retryAfter?: number;
+
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(response.description, '429', response, context);
+    this.retryAfter = response.parameters?.retry_after;
+  }
+}
@@ -0,0 +1,17 @@
+import {
+  TelegramErrorContext,
+  TelegramException,
+  TelegramResponse,
+} from '../interfaces/telegramTypes.interface';
+
+/**
+ * The bot token was rejected (401).
+ */
+export class TelegramUnauthorizedError extends TelegramException {
+  constructor(
+    response: TelegramResponse<unknown>,
+    context?: TelegramErrorContext,
+  ) {
+    super(response.description, '401', response, context);
+  }
+}
@@ -1,3 +1,19 @@
+export * from './decorators';
+export * from './errors';
+export * from './input-file';
+export * from './telegram-arguments-host';
 export * from './interfaces';
+export * from './telegram-memory-session.store';
+export * from './telegram-polling.service';
+export * from './telegram-promise.service';
+export * from './telegram-session.service';
+export * from './telegram-updates.service';
+export * from './telegram-webhook.controller';
+export * from './telegram-webhook.guard';
+export * from './telegram-wizard.context';
+export * from './telegram.context';
+export * from './telegram.message-kinds';
 export * from './telegram.module';
 export * from './telegram.service';
+export * from './telegram.tokens';
+export * from './telegram.update-types';
@@ -0,0 +1,72 @@
+import { createReadStream } from 'fs';
+import { basename } from 'path';
+import { Readable } from 'stream';
+
+export interface InputFileOptions {
+  /**
+   * _Optional._ Name of the file as shown to users
+   */
+  filename?: string;
+  /**
+   * _Optional._ MIME type of the file
+   */
+  contentType?: string;
+}
+
+/**
+ * A file to send to Telegram. Files built from a Buffer, a stream or a local path are uploaded
+ * with multipart/form-data, files built from a URL are downloaded by Telegram itself.
+ *
+ * @see https://core.telegram.org/bots/api#sending-files
+ */
+export class InputFile {
+  private constructor(
+    private readonly source: Buffer | Readable | string,
+    private readonly kind: 'buffer' | 'stream' | 'path' | 'url',
+    readonly options: InputFileOptions = {},
+  ) {}
+
+  static fromBuffer(buffer: Buffer, options?: InputFileOptions): InputFile {
+    return new InputFile(buffer, 'buffer', options);
+  }
+
+  /**
+   * A stream can only be read once, so calls sending it are not retried successfully.
+   */
+  static fromStream(stream: Readable, options?: InputFileOptions): InputFile {
+    return new InputFile(stream, 'stream', options);
+  }
+
+  /**
+   * The file is opened every time it is sent, the file name defaults to the name of the file on disk.
+   */
+  static fromPath(path: string, options?: InputFileOptions): InputFile {
+    return new InputFile(path, 'path', {
+      filename: basename(path),
+      ...options,
+    });
+  }
+
+  /**
+   * Telegram downloads the file from the URL itself, so its own file name and MIME type are used.
+   */
+  static fromUrl(url: string): InputFile {
+    return new InputFile(url, 'url');
+  }
+
+  /**
+   * Whether the file has to be uploaded with multipart/form-data.
+   */
+  get isUpload(): boolean {
+    return this.kind !== 'url';
+  }
+
+  /**
+   * Returns the value to send: the content to upload, or the URL for Telegram to download.
+   */
+  getContent(): Buffer | Readable | string {
+    return this.kind === 'path'
+      ? createReadStream(this.source as string)
+      : this.source;
+  }
+}
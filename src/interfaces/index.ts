@@ -1,2 +1,9 @@
+export * from './telegram-call-hook.interface';
+export * from './telegram-call-options.interface';
+export * from './telegram-command.interface';
+export * from './telegram-download-options.interface';
+export * from './telegram-handler.interface';
 export * from './telegram-module-options.interface';
+export * from './telegram-session-store.interface';
+export * from './telegram-wizard.interface';
 export * from './telegramTypes.interface';
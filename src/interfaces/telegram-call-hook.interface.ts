@@ -0,0 +1,53 @@
+import { TelegramException } from './telegramTypes.interface';
+
+/**
+ * A Bot API call about to be sent.
+ */
+export interface TelegramCall {
+  /**
+   * Name of the Bot API method, e.g. `sendMessage`
+   */
+  readonly method: string;
+  /**
+   * Parameters the method is called with. Hooks may change them, or replace them altogether.
+   */
+  params: any;
+}
+
+/**
+ * How a Bot API call ended.
+ */
+export interface TelegramCallOutcome {
+  /**
+   * What the call returned, unless it failed
+   */
+  result?: unknown;
+  /**
+   * What the call failed with, unless it succeeded
+   */
+  error?: TelegramException;
+  /**
+   * Milliseconds between sending the call and its outcome, waits for retries and rate limits included
+   */
+  duration: number;
+}
+
+/**
+ * Runs before and after every Bot API call. Pass hooks in the `hooks` module option,
+ * or mark providers implementing this interface with `@TelegramHook()`.
+ */
+export interface TelegramCallHook {
+  /**
+   * Runs before the call is sent, after the hooks registered before this one. Change `call.params`
+   * to send other parameters, or return anything but `undefined` to skip the call and the
+   * following hooks, the value being the result of the call.
+   */
+  beforeCall?(call: TelegramCall): unknown | Promise<unknown>;
+  /**
+   * Runs once the call succeeded, failed or was skipped, in the order hooks were registered.
+   */
+  afterCall?(
+    call: TelegramCall,
+    outcome: TelegramCallOutcome,
+  ): void | Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { AxiosRequestConfig } from 'axios';
+
+/**
+ * Options of the requests sent by `TelegramService.withOptions()`.
+ */
+export interface TelegramCallOptions {
+  /**
+   * _Optional._ Milliseconds after which a request still waiting for its response fails with a
+   * `TelegramNetworkError`. Defaults to the `requestTimeout` of the module.
+   */
+  timeout?: number;
+  /**
+   * _Optional._ Cancels the request once aborted. Aborted requests fail with a `TelegramNetworkError`
+   * and are not retried.
+   */
+  signal?: AbortSignal;
+  /**
+   * _Optional._ Other options of the axios request, e.g. `httpsAgent` to go through a proxy.
+   */
+  axios?: AxiosRequestConfig;
+}
@@ -0,0 +1,25 @@
+export interface TelegramCommand {
+  /**
+   * Name of the command, without the leading slash nor the bot username
+   */
+  command: string;
+  /**
+   * _Optional._ Username of the bot the command is addressed to, as in `/start@YourBot`
+   */
+  botUsername?: string;
+  /**
+   * Text following the command
+   */
+  argsText: string;
+  /**
+   * Words of the text following the command, text between quotes being a single argument
+   */
+  args: string[];
+}
+
+export interface TelegramCommandArgOptions {
+  /**
+   * _Optional._ Receive every remaining argument, joined with spaces. Defaults to `false`.
+   */
+  rest?: boolean;
+}
@@ -0,0 +1,6 @@
+export interface TelegramDownloadOptions {
+  /**
+   * _Optional._ Largest file, in bytes, that may be downloaded. Defaults to the `maxDownloadSize` of the module.
+   */
+  maxSize?: number;
+}
@@ -0,0 +1,29 @@
+import { TelegramSendMessageParams } from './telegramTypes.interface';
+
+export type TelegramHandlerType =
+  | 'update'
+  | 'command'
+  | 'text'
+  | 'message'
+  | 'callback_query'
+  | 'inline_query';
+
+export interface TelegramHandlerMetadata {
+  /**
+   * Kind of update the handler is interested in
+   */
+  type: TelegramHandlerType;
+  /**
+   * _Optional._ Restricts the updates handled, its meaning depends on the type:
+   * the update field, the commands, the text, the message field, the callback data prefix or the inline query.
+   */
+  filter?: string | string[] | RegExp;
+}
+
+/**
+ * What a handler can return to have it sent to the chat the update comes from:
+ * a text, or the parameters of `sendMessage` without the `chat_id`.
+ */
+export type TelegramHandlerReply =
+  | string
+  | Omit<TelegramSendMessageParams, 'chat_id'>;
@@ -1,7 +1,197 @@
 import { ModuleMetadata, Type } from '@nestjs/common/interfaces';
+import { TelegramContext } from '../telegram.context';
+import { TelegramCallHook } from './telegram-call-hook.interface';
+import { TelegramSessionStore } from './telegram-session-store.interface';
+import { TelegramWizardOptions } from './telegram-wizard.interface';
+
+export interface TelegramRetryOptions {
+  /**
+   * Maximum number of times a failed call is repeated. Defaults to 3.
+   */
+  retries?: number;
+  /**
+   * Base delay in milliseconds for the exponential backoff applied to server and network errors. Defaults to 500.
+   */
+  minDelay?: number;
+  /**
+   * Upper bound in milliseconds for a single backoff delay. Defaults to 30000.
+   */
+  maxDelay?: number;
+  /**
+   * Longest `retry_after` (in seconds) Telegram may ask for before the call fails instead of waiting. Defaults to 60.
+   */
+  maxRetryAfter?: number;
+}
+
+export interface TelegramRateLimitOptions {
+  /**
+   * Messages the bot may send per second across all chats. Defaults to 30.
+   */
+  globalPerSecond?: number;
+  /**
+   * Messages the bot may send per second to a single private chat. Defaults to 1.
+   */
+  privateChatPerSecond?: number;
+  /**
+   * Messages the bot may send per minute to a single group or channel. Defaults to 20.
+   */
+  groupPerMinute?: number;
+}
+
+export interface TelegramPollingOptions {
+  /**
+   * Timeout in seconds for long polling. Defaults to 30.
+   */
+  timeout?: number;
+  /**
+   * Limits the number of updates to be retrieved per call. Values between 1-100 are accepted. Defaults to 100.
+   */
+  limit?: number;
+  /**
+   * List of the update types the bot should receive. If not specified, the previous setting will be used.
+   */
+  allowedUpdates?: string[];
+  /**
+   * Milliseconds to wait before polling again after an error, doubled after each further error. Defaults to 1000.
+   */
+  retryDelay?: number;
+  /**
+   * Upper bound in milliseconds for the wait after an error. Defaults to 30000.
+   */
+  maxRetryDelay?: number;
+}
+
+export interface TelegramWebhookOptions {
+  /**
+   * Path of the route receiving the updates Telegram pushes, e.g. `telegram/webhook`.
+   * With `forRootAsync` the path is passed as `webhookPath` instead.
+   */
+  path?: string;
+  /**
+   * Secret sent by Telegram in the `X-Telegram-Bot-Api-Secret-Token` header of every webhook request.
+   * Requests without it are rejected with 401, and `setWebhook` registers it when no `secret_token` is given.
+   */
+  secretToken?: string;
+  /**
+   * Reject webhook requests that do not come from Telegram's networks
+   * (149.154.160.0/20 and 91.108.4.0/22). Behind a proxy, enable Express' `trust proxy`
+   * so the address of the client is used. Defaults to `false`.
+   */
+  checkSourceIp?: boolean;
+}
+
+export interface TelegramSessionOptions {
+  /**
+   * _Optional._ Where sessions are kept. Defaults to a `TelegramMemorySessionStore`, lost on restart.
+   */
+  store?: TelegramSessionStore;
+  /**
+   * _Optional._ Seconds a session is kept after the last update using it. Defaults to keeping it forever.
+   */
+  ttl?: number;
+  /**
+   * _Optional._ Which updates share a session: those of a `'chat'`, those of a `'user'`, those of a user in a
+   * chat (`'chat_user'`), or those for which the function returns the same key. Updates without a key get no
+   * session. Defaults to `'chat_user'`.
+   */
+  key?:
+    | 'chat'
+    | 'user'
+    | 'chat_user'
+    | ((context: TelegramContext) => string | undefined);
+}
+
+export interface TelegramChatMigration {
+  /**
+   * Identifier of the group that was upgraded
+   */
+  fromChatId: number | string;
+  /**
+   * Identifier of the supergroup it became
+   */
+  toChatId: number;
+  /**
+   * Bot API method that ran into the migration
+   */
+  method: string;
+}
 
 export interface TelegramModuleOptions {
   botKey: string;
+  /**
+   * _Optional._ Name of the bot, to register several. Its providers are then injected with
+   * `@InjectTelegram(name)` or `getTelegramToken(name, provider)`, and only `@TelegramUpdate(name)`
+   * providers handle its updates.
+   */
+  name?: string;
+  /**
+   * _Optional._ Call `getMe` when the module initializes, caching the bot as `TelegramService.botInfo`.
+   * A bot key Telegram rejects then fails the application start, or only logs a warning with `'warn'`.
+   * Defaults to false.
+   */
+  validateBotKey?: boolean | 'warn';
+  /**
+   * _Optional._ Root URL of the Bot API, e.g. of a self-hosted `telegram-bot-api` server. Defaults to `https://api.telegram.org`.
+   */
+  apiRoot?: string;
+  /**
+   * _Optional._ Use Telegram's test environment instead of the production one. Defaults to false.
+   */
+  testEnvironment?: boolean;
+  /**
+   * _Optional._ Largest file, in bytes, the `downloadFile` methods may download. Defaults to 20 MB,
+   * the limit of the official Bot API, or to no limit when `apiRoot` is set.
+   */
+  maxDownloadSize?: number;
+  /**
+   * _Optional._ Milliseconds after which a call still waiting for its response fails, which
+   * `withOptions()` can change for some calls. Long polling `getUpdates` calls always wait
+   * longer than their `timeout`. Defaults to waiting as long as it takes.
+   */
+  requestTimeout?: number;
+  /**
+   * _Optional._ Retry calls that failed because of flood control (429), a server error (5xx) or the network.
+   * Other failures, like a 400, are never repeated. Retries are disabled when this is not set.
+   */
+  retry?: TelegramRetryOptions;
+  /**
+   * _Optional._ Queue `send*` and `edit*` calls so the bot stays under Telegram's sending limits.
+   * Calls are sent straight away when this is not set.
+   */
+  rateLimit?: TelegramRateLimitOptions;
+  /**
+   * _Optional._ When a call fails because its group was upgraded to a supergroup,
+   * repeat it once with the supergroup's identifier. Defaults to false.
+   */
+  followChatMigration?: boolean;
+  /**
+   * _Optional._ Called whenever a call reports that its group was upgraded to a supergroup,
+   * so stored chat identifiers can be updated.
+   */
+  onChatMigrated?: (migration: TelegramChatMigration) => void;
+  /**
+   * _Optional._ Run before and after every Bot API call, e.g. to add default parameters, audit calls or skip them
+   * in a dry run. Providers marked with `@TelegramHook()` run after these.
+   */
+  hooks?: TelegramCallHook[];
+  /**
+   * _Optional._ Receive updates with `getUpdates` long polling, started once the application has bootstrapped.
+   * Pass `true` to poll with the default options. Defaults to false.
+   */
+  polling?: TelegramPollingOptions | boolean;
+  /**
+   * _Optional._ Receive the updates Telegram pushes to a webhook. Register the webhook with `setWebhook`.
+   */
+  webhook?: TelegramWebhookOptions;
+  /**
+   * _Optional._ Load a session before an update handler runs and save it after.
+   * Pass `true` to keep sessions in memory with the default options. Defaults to false.
+   */
+  session?: TelegramSessionOptions | boolean;
+  /**
+   * _Optional._ How wizards are left besides completing them. Wizards need `session` to be set.
+   */
+  wizard?: TelegramWizardOptions;
 }
 
 export interface TelegramOptionsFactory {
@@ -18,4 +208,14 @@ export interface TelegramModuleAsyncOptions
     ...args: any[]
   ) => Promise<TelegramModuleOptions> | TelegramModuleOptions;
   inject?: any[];
+  /**
+   * _Optional._ Name of the bot, to register several. Providers are registered before the options
+   * are created, so the name cannot come from them.
+   */
+  name?: string;
+  /**
+   * _Optional._ Path of the route receiving the updates Telegram pushes to the webhook.
+   * Routes are registered before the options are created, so the path cannot come from them.
+   */
+  webhookPath?: string;
 }
@@ -0,0 +1,20 @@
+/**
+ * The state kept between the updates of a chat or a user.
+ */
+export type TelegramSession = Record<string, any>;
+
+/**
+ * Where sessions are kept. Implement it to keep sessions in Redis or a database
+ * so they survive restarts and are shared between instances.
+ */
+export interface TelegramSessionStore {
+  /**
+   * Returns the session stored under the key, or `undefined` if there is none or it expired.
+   */
+  get(key: string): Promise<TelegramSession | undefined>;
+  /**
+   * Stores the session under the key, for `ttl` seconds if given.
+   */
+  set(key: string, session: TelegramSession, ttl?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,41 @@
+export interface TelegramWizardOptions {
+  /**
+   * _Optional._ Commands leaving any wizard, written without the leading slash. Defaults to `['cancel']`.
+   */
+  cancelCommands?: string[];
+  /**
+   * _Optional._ Text sent when a wizard is left with one of the `cancelCommands`. Nothing is sent by default.
+   */
+  cancelReply?: string;
+  /**
+   * _Optional._ Seconds without an answer after which a wizard is left,
+   * the update is then handled as if there was no wizard. Defaults to no timeout.
+   */
+  timeout?: number;
+}
+
+/**
+ * Progress in a wizard, as stored in the session.
+ */
+export interface TelegramWizardProgress {
+  /**
+   * Name of the wizard, as given to `@TelegramWizard()`
+   */
+  name: string;
+  /**
+   * Index of the step handling the next update
+   */
+  cursor: number;
+  /**
+   * Data gathered by the steps
+   */
+  state: Record<string, any>;
+  /**
+   * Time of the last step, in milliseconds since the epoch
+   */
+  updatedAt: number;
+  /**
+   * Whether the wizard was just entered and its first step has not run yet
+   */
+  entering?: boolean;
+}
@@ -1,4 +1,6 @@
 import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { InputFile } from '../input-file';
 
 /**
  * This object represents an incoming update.
@@ -28,27 +30,23 @@ export interface Update {
   /**
    * New incoming channel post of any kind — text, photo, sticker, etc.
    */
-  channel_post?: any;
-  // channel_post?: ChannelPost;
+  channel_post?: TelegramMessage;
 
   /**
    * New version of a channel post that is known to the bot and was edited
    */
-  edited_channel_post?: any;
-  // edited_channel_post?: EditedChannelPost;
+  edited_channel_post?: TelegramMessage;
 
   /**
    * New incoming inline query
    */
-  inline_query?: any;
-  // inline_query?: InlineQuery;
+  inline_query?: TelegramInlineQuery;
 
   /**
    * The result of an inline query that was chosen by a user and sent to their chat partner. Please see our
    * documentation on the feedback collecting for details on how to enable these updates for your bot.
    */
-  chosen_inline_result?: any;
-  // chosen_inline_result?: ChosenInlineResult;
+  chosen_inline_result?: TelegramChosenInlineResult;
 
   /**
    * New incoming callback query
@@ -58,14 +56,12 @@ export interface Update {
   /**
    * New incoming shipping query. Only for invoices with flexible price
    */
-  shipping_query?: any;
-  // shipping_query?: ShoppingQuery;
+  shipping_query?: TelegramShippingQuery;
 
   /**
    * New incoming pre-checkout query. Contains full information about checkout
    */
-  pre_checkout_query?: any;
-  // pre_checkout_query?: PreCheckoutQuery;
+  pre_checkout_query?: TelegramPreCheckoutQuery;
 
   /**
    * New poll state. Bots receive only updates about stopped polls and polls, which are sent by the bot
@@ -76,31 +72,37 @@ export interface Update {
    * A user changed their answer in a non-anonymous poll.
    * Bots receive new votes only in polls that were sent by the bot itself.
    */
-  poll_answer?: any;
-  // poll_answer?: PollAnswer;
+  poll_answer?: TelegramPollAnswer;
 
   /**
    * The bot's chat member status was updated in a chat. For private chats, this update is received only when the bot is
    * blocked or unblocked by the user.
    */
-  my_chat_member?: any;
-  // my_chat_member?: ChatMemberUpdated;
+  my_chat_member?: TelegramChatMemberUpdated;
 
   /**
    * A chat member's status was updated in a chat. The bot must be an administrator in the chat and must explicitly
    * specify “chat_member” in the list of allowed_updates to receive these updates.
    */
-  chat_member?: any;
-  // chat_member?: ChatMemberUpdated;
+  chat_member?: TelegramChatMemberUpdated;
 
   /**
    * A request to join the chat has been sent.
    * The bot must have the can_invite_users administrator right in the chat to receive these updates.
    */
-  chat_join_request?: any;
-  // chat_join_request?: ChatJoinRequest;
+  chat_join_request?: TelegramChatJoinRequest;
 }
 
+/**
+ * Name of the field holding the content of an update, e.g. `'message'` or `'callback_query'`.
+ */
+export type UpdateType = Exclude<keyof Update, 'update_id'>;
+
+/**
+ * An update known to hold content of the given type, e.g. `UpdateOf<'callback_query'>`.
+ */
+export type UpdateOf<T extends UpdateType> = Update & Required<Pick<Update, T>>;
+
 /**
  * This object represents a Telegram user or bot.
  */
@@ -347,12 +349,20 @@ export interface TelegramMessage {
   /**
    * _Optional._ Service message: the group has been created
    */
+  group_chat_created?: true;
+  /**
+   * @deprecated Telegram never sends this field, use `group_chat_created`.
+   */
   group_chat_deleted?: true;
   /**
    * _Optional._ Service message: the supergroup has been created.
    * This field can‘t be received in a message coming through updates, because bot can’t be a member of a supergroup when it is created.
    * It can only be found in reply_to_message if someone replies to a very first message in a directly created supergroup.
    */
+  supergroup_chat_created?: true;
+  /**
+   * @deprecated Telegram never sends this field, use `supergroup_chat_created`.
+   */
   supergroup_chat_deleted?: true;
   /**
    * _Optional._ Service message: the channel has been created.
@@ -403,6 +413,65 @@ export interface TelegramMessage {
   reply_markup?: TelegramInlineKeyboardMarkup;
 }
 
+/**
+ * What a message is about: the field holding its content, or the event of a service message.
+ */
+export type TelegramMessageKind =
+  | TelegramContentMessageKind
+  | TelegramServiceMessageKind;
+
+/**
+ * Kinds of the messages sent by users.
+ */
+export type TelegramContentMessageKind =
+  | 'text'
+  | 'animation'
+  | 'audio'
+  | 'document'
+  | 'photo'
+  | 'sticker'
+  | 'video'
+  | 'video_note'
+  | 'voice'
+  | 'contact'
+  | 'game'
+  | 'poll'
+  | 'venue'
+  | 'location'
+  | 'invoice'
+  | 'successful_payment'
+  | 'passport_data';
+
+/**
+ * Kinds of the messages sent by Telegram about an event in the chat, e.g. members joining it.
+ */
+export type TelegramServiceMessageKind =
+  | 'new_chat_members'
+  | 'left_chat_member'
+  | 'new_chat_title'
+  | 'new_chat_photo'
+  | 'delete_chat_photo'
+  | 'group_chat_created'
+  | 'supergroup_chat_created'
+  | 'channel_chat_created'
+  | 'migrate_to_chat_id'
+  | 'migrate_from_chat_id'
+  | 'pinned_message'
+  | 'connected_website';
+
+/**
+ * A message known to be of the given kind, e.g. `MessageOf<'photo'>` has a `photo`.
+ */
+export type MessageOf<K extends TelegramMessageKind> = TelegramMessage &
+  Required<Pick<TelegramMessage, K>>;
+
+/**
+ * A message sent by Telegram about an event in the chat, narrowed by checking which event it is about.
+ */
+export type TelegramServiceMessage = {
+  [K in TelegramServiceMessageKind]: MessageOf<K>;
+}[TelegramServiceMessageKind];
+
 /**
  * This object represents one special entity in a text message. For example, hashtags, usernames, URLs, etc.
  */
@@ -741,6 +810,24 @@ export interface TelegramPoll {
   is_closed: boolean;
 }
 
+/**
+ * This object represents an answer of a user in a non-anonymous poll.
+ */
+export interface TelegramPollAnswer {
+  /**
+   * Unique poll identifier
+   */
+  poll_id: string;
+  /**
+   * The user, who changed the answer to the poll
+   */
+  user: TelegramUser;
+  /**
+   * 0-based identifiers of answer options, chosen by the user. May be empty if the user retracted their vote.
+   */
+  option_ids: number[];
+}
+
 /**
  * This object represent a user's profile pictures.
  */
@@ -1017,6 +1104,65 @@ export interface TelegramCallbackQuery {
   game_short_name?: string;
 }
 
+/**
+ * This object represents an incoming inline query.
+ * When the user sends an empty query, your bot could return some default or trending results.
+ */
+export interface TelegramInlineQuery {
+  /**
+   * Unique identifier for this query
+   */
+  id: string;
+  /**
+   * Sender
+   */
+  from: TelegramUser;
+  /**
+   * Text of the query (up to 256 characters)
+   */
+  query: string;
+  /**
+   * Offset of the results to be returned, can be controlled by the bot
+   */
+  offset: string;
+  /**
+   * _Optional._ Type of the chat from which the inline query was sent.
+   * Can be either “sender” for a private chat with the inline query sender, “private”, “group”, “supergroup”, or “channel”.
+   */
+  chat_type?: string;
+  /**
+   * _Optional._ Sender location, only for bots that request user location
+   */
+  location?: TelegramLocation;
+}
+
+/**
+ * Represents a result of an inline query that was chosen by the user and sent to their chat partner.
+ */
+export interface TelegramChosenInlineResult {
+  /**
+   * The unique identifier for the result that was chosen
+   */
+  result_id: string;
+  /**
+   * The user that chose the result
+   */
+  from: TelegramUser;
+  /**
+   * _Optional._ Sender location, only for bots that require user location
+   */
+  location?: TelegramLocation;
+  /**
+   * _Optional._ Identifier of the sent inline message. Available only if there is an inline keyboard attached to the message.
+   * Will be also received in callback queries and can be used to edit the message.
+   */
+  inline_message_id?: string;
+  /**
+   * The query that was used to obtain the result
+   */
+  query: string;
+}
+
 /**
  * Upon receiving a message with this object,  clients will display a reply interface to the user
  * (act as if the user has selected the bot‘s message and tapped ’Reply').
@@ -1142,6 +1288,106 @@ export interface TelegramChatMember {
   can_add_web_page_previews?: boolean;
 }
 
+/**
+ * Represents an invite link for a chat.
+ */
+export interface TelegramChatInviteLink {
+  /**
+   * The invite link. If the link was created by another chat administrator, then the second part of the link will be
+   * replaced with “…”.
+   */
+  invite_link: string;
+  /**
+   * Creator of the link
+   */
+  creator: TelegramUser;
+  /**
+   * True, if users joining the chat via the link need to be approved by chat administrators
+   */
+  creates_join_request: boolean;
+  /**
+   * True, if the link is primary
+   */
+  is_primary: boolean;
+  /**
+   * True, if the link is revoked
+   */
+  is_revoked: boolean;
+  /**
+   * _Optional._ Invite link name
+   */
+  name?: string;
+  /**
+   * _Optional._ Point in time (Unix timestamp) when the link will expire or has been expired
+   */
+  expire_date?: number;
+  /**
+   * _Optional._ The maximum number of users that can be members of the chat simultaneously after joining the chat via
+   * this invite link; 1-99999
+   */
+  member_limit?: number;
+  /**
+   * _Optional._ Number of pending join requests created using this link
+   */
+  pending_join_request_count?: number;
+}
+
+/**
+ * This object represents changes in the status of a chat member.
+ */
+export interface TelegramChatMemberUpdated {
+  /**
+   * Chat the user belongs to
+   */
+  chat: TelegramChat;
+  /**
+   * Performer of the action, which resulted in the change
+   */
+  from: TelegramUser;
+  /**
+   * Date the change was done in Unix time
+   */
+  date: number;
+  /**
+   * Previous information about the chat member
+   */
+  old_chat_member: TelegramChatMember;
+  /**
+   * New information about the chat member
+   */
+  new_chat_member: TelegramChatMember;
+  /**
+   * _Optional._ Chat invite link, which was used by the user to join the chat; for joining by invite link events only.
+   */
+  invite_link?: TelegramChatInviteLink;
+}
+
+/**
+ * Represents a join request sent to a chat.
+ */
+export interface TelegramChatJoinRequest {
+  /**
+   * Chat to which the request was sent
+   */
+  chat: TelegramChat;
+  /**
+   * User that sent the join request
+   */
+  from: TelegramUser;
+  /**
+   * Date the request was sent in Unix time
+   */
+  date: number;
+  /**
+   * _Optional._ Bio of the user.
+   */
+  bio?: string;
+  /**
+   * _Optional._ Chat invite link that was used by the user to send the join request
+   */
+  invite_link?: TelegramChatInviteLink;
+}
+
 /**
  * Contains information about why a request was unsuccessful.
  */
@@ -1176,9 +1422,10 @@ export interface TelegramInputMedia {
    * File to send. Pass a file_id to send a file that exists on the  servers (recommended),
    * pass an HTTP URL for  to get a file from the Internet, or pass “attach://<file_attach_name>”
    * to upload a new one using multipart/form-data under <file_attach_name> name.
+   * A file to upload can also be passed directly, it is then attached under a generated name.
    * [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  media: Buffer | string;
+  media: TelegramInputFile;
   /**
    * _Optional._ Caption of the photo to be sent, 0-1024 characters
    */
@@ -1215,10 +1462,11 @@ export interface TelegramInputMediaVideo extends TelegramInputMedia {
    * The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail‘s width and height should not exceed 320.
    * Ignored if the file is not uploaded using multipart/form-data.
    * Thumbnails can’t be reused and can be only uploaded as a new file, so you can pass “attach://<file_attach_name>”
-   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>.
+   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>,
+   * or pass the file to upload directly.
    * [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * _Optional._ Video width
    */
@@ -1250,10 +1498,11 @@ export interface TelegramInputMediaAnimation extends TelegramInputMedia {
    * The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail‘s width and height should not exceed 320.
    * Ignored if the file is not uploaded using multipart/form-data.
    * Thumbnails can’t be reused and can be only uploaded as a new file, so you can pass “attach://<file_attach_name>”
-   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>.
+   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>,
+   * or pass the file to upload directly.
    * [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * _Optional._ Animation width
    */
@@ -1281,10 +1530,11 @@ export interface TelegramInputMediaAudio extends TelegramInputMedia {
    * The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail‘s width and height should not exceed 320.
    * Ignored if the file is not uploaded using multipart/form-data.
    * Thumbnails can’t be reused and can be only uploaded as a new file, so you can pass “attach://<file_attach_name>”
-   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>.
+   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>,
+   * or pass the file to upload directly.
    * [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * _Optional._ Duration of the audio in seconds
    */
@@ -1312,10 +1562,11 @@ export interface TelegramInputMediaDocument extends TelegramInputMedia {
    * The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail‘s width and height should not exceed 320.
    * Ignored if the file is not uploaded using multipart/form-data.
    * Thumbnails can’t be reused and can be only uploaded as a new file, so you can pass “attach://<file_attach_name>”
-   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>.
+   * if the thumbnail was uploaded using multipart/form-data under <file_attach_name>,
+   * or pass the file to upload directly.
    * [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
 }
 
 /*************************************
@@ -1570,6 +1821,28 @@ export interface TelegramSuccessfulPayment {
   provider_payment_charge_id: string;
 }
 
+/**
+ * This object contains information about an incoming shipping query.
+ */
+export interface TelegramShippingQuery {
+  /**
+   * Unique query identifier
+   */
+  id: string;
+  /**
+   * User who sent the query
+   */
+  from: TelegramUser;
+  /**
+   * Bot specified invoice payload
+   */
+  invoice_payload: string;
+  /**
+   * User specified shipping address
+   */
+  shipping_address: TelegramShippingAddress;
+}
+
 /**
  * This object contains information about an incoming pre-checkout query
  */
@@ -1807,6 +2080,52 @@ export interface TelegramGameHighScore {
   score: number;
 }
 
+/**
+ * Contains information about the current status of a webhook.
+ *
+ * @see https://core.telegram.org/bots/api#webhookinfo
+ */
+export interface TelegramWebhookInfo {
+  /**
+   * Webhook URL, may be empty if webhook is not set up
+   */
+  url: string;
+  /**
+   * True, if a custom certificate was provided for webhook certificate checks
+   */
+  has_custom_certificate: boolean;
+  /**
+   * Number of updates awaiting delivery
+   */
+  pending_update_count: number;
+  /**
+   * _Optional._ Currently used webhook IP address
+   */
+  ip_address?: string;
+  /**
+   * _Optional._ Unix time for the most recent error that happened when trying to deliver an update via webhook
+   */
+  last_error_date?: number;
+  /**
+   * _Optional._ Error message in human-readable format for the most recent error that happened when trying to deliver an
+   * update via webhook
+   */
+  last_error_message?: string;
+  /**
+   * _Optional._ Unix time of the most recent error that happened when trying to synchronize available updates with
+   * Telegram datacenters
+   */
+  last_synchronization_error_date?: number;
+  /**
+   * _Optional._ The maximum allowed number of simultaneous HTTPS connections to the webhook for update delivery
+   */
+  max_connections?: number;
+  /**
+   * _Optional._ A list of update types the bot is subscribed to. Defaults to all update types except chat_member
+   */
+  allowed_updates?: string[];
+}
+
 /********************************************
  *
  * T E L E G R A M   R E T U R N   T Y P E S
@@ -1822,11 +2141,51 @@ export interface TelegramResponse<T> {
   result?: T;
   error_code?: number;
   description?: string;
+  parameters?: TelegramResponseParameters;
+}
+
+/**
+ * The Bot API call an exception was raised for.
+ */
+export interface TelegramErrorContext {
+  /**
+   * Name of the Bot API method that was called
+   */
+  method?: string;
+  /**
+   * Parameters the method was called with
+   */
+  params?: unknown;
 }
 
 export class TelegramException extends BadRequestException {
-  constructor(message?: string | object | any, error?: string) {
+  /**
+   * `error_code` of the failed response. Its contents are subject to change in the future.
+   */
+  readonly errorCode?: number;
+  /**
+   * Human-readable description of the error, as sent by Telegram
+   */
+  readonly description?: string;
+  /**
+   * `parameters` of the failed response, like `retry_after` or `migrate_to_chat_id`
+   */
+  readonly parameters?: TelegramResponseParameters;
+  readonly method?: string;
+  readonly params?: unknown;
+
+  constructor(
+    message?: string | object | any,
+    error?: string,
+    readonly telegramResponse?: TelegramResponse<unknown>,
+    context: TelegramErrorContext = {},
+  ) {
     super(message, error);
+    this.errorCode = telegramResponse?.error_code;
+    this.description = telegramResponse?.description;
+    this.parameters = telegramResponse?.parameters;
+    this.method = context.method;
+    this.params = context.params;
   }
 }
 
@@ -1836,6 +2195,17 @@ export class TelegramException extends BadRequestException {
  *
  */
 
+/**
+ * A file to upload with multipart/form-data.
+ */
+export type TelegramUploadFile = InputFile | Buffer | Readable;
+
+/**
+ * A file to send: a file to upload, or the file_id of a file on the Telegram servers or
+ * an HTTP URL for Telegram to get the file from, passed as a string.
+ */
+export type TelegramInputFile = TelegramUploadFile | string;
+
 interface TelegramChatId {
   /**
    * Unique identifier for the target group or username of the target supergroup or channel (in the format `@channelusername`)
@@ -1879,6 +2249,54 @@ export interface GetUpdatesParams {
   allowed_updates?: string[];
 }
 
+/**
+ * @see https://core.telegram.org/bots/api#setwebhook
+ */
+export interface TelegramSetWebhookParams {
+  /**
+   * HTTPS URL to send updates to. Use an empty string to remove webhook integration
+   */
+  url: string;
+  /**
+   * _Optional._ Upload your public key certificate so that the root certificate in use can be checked.
+   */
+  certificate?: TelegramUploadFile;
+  /**
+   * _Optional._ The fixed IP address which will be used to send webhook requests instead of the IP address resolved
+   * through DNS
+   */
+  ip_address?: string;
+  /**
+   * _Optional._ The maximum allowed number of simultaneous HTTPS connections to the webhook for update delivery,
+   * 1-100. Defaults to 40.
+   */
+  max_connections?: number;
+  /**
+   * _Optional._ A JSON-serialized list of the update types you want your bot to receive.
+   * If not specified, the previous setting will be used.
+   */
+  allowed_updates?: string[];
+  /**
+   * _Optional._ Pass True to drop all pending updates
+   */
+  drop_pending_updates?: boolean;
+  /**
+   * _Optional._ A secret token to be sent in a header “X-Telegram-Bot-Api-Secret-Token” in every webhook request,
+   * 1-256 characters. Only characters A-Z, a-z, 0-9, _ and - are allowed.
+   */
+  secret_token?: string;
+}
+
+/**
+ * @see https://core.telegram.org/bots/api#deletewebhook
+ */
+export interface TelegramDeleteWebhookParams {
+  /**
+   * _Optional._ Pass True to drop all pending updates
+   */
+  drop_pending_updates?: boolean;
+}
+
 export interface TelegramSendMessageParams extends TelegramChatId {
   /**
    * Text of the message to be sent
@@ -1936,7 +2354,7 @@ export interface TelegramSendPhotoParams extends TelegramChatId {
    * (recommended), pass an HTTP URL as a String for  to get a photo from the Internet, or upload a new photo using
    * multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  photo: Buffer | string;
+  photo: TelegramInputFile;
   /**
    * Photo caption (may also be used when resending photos by file_id), 0-1024 characters
    */
@@ -1974,7 +2392,7 @@ export interface TelegramSendAudioParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get an audio file from the Internet,
    * or upload a new one using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  audio: Buffer | string;
+  audio: TelegramInputFile;
   /**
    * Audio caption, 0-1024 characters
    */
@@ -2004,7 +2422,7 @@ export interface TelegramSendAudioParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Sends the message [silently](https://telegram.org/blog/channels-2-0#silent-messages). Users will receive a notification with no sound.
    */
@@ -2032,7 +2450,7 @@ export interface TelegramSendDocumentParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a file from the Internet,
    * or upload a new one using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  document: Buffer | string;
+  document: TelegramInputFile;
   /**
    * Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in
    * JPEG format and less than 200 kB in size. A thumbnail‘s width and height should not exceed 320. Ignored if the file is not
@@ -2040,7 +2458,7 @@ export interface TelegramSendDocumentParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Document caption (may also be used when resending documents by file_id), 0-1024 characters
    */
@@ -2078,7 +2496,7 @@ export interface TelegramSendVideoParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a video from the Internet,
    * or upload a new video using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  video: Buffer | string;
+  video: TelegramInputFile;
   /**
    * Duration of sent video in seconds
    */
@@ -2098,7 +2516,7 @@ export interface TelegramSendVideoParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Video caption (may also be used when resending videos by file_id), 0-1024 characters
    */
@@ -2140,7 +2558,7 @@ export interface TelegramSendVideoNoteParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a video from the Internet,
    * or upload a new video using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  video_note: Buffer | string;
+  video_note: TelegramInputFile;
   /**
    * Duration of sent video in seconds
    */
@@ -2160,7 +2578,7 @@ export interface TelegramSendVideoNoteParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Sends the message [silently](https://telegram.org/blog/channels-2-0#silent-messages). Users will receive a notification with no sound.
    */
@@ -2188,7 +2606,7 @@ export interface TelegramSendAnimationParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a animation from the Internet,
    * or upload a new animation using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  animation: Buffer | string;
+  animation: TelegramInputFile;
   /**
    * Duration of sent video in seconds
    */
@@ -2208,7 +2626,7 @@ export interface TelegramSendAnimationParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Video caption (may also be used when resending videos by file_id), 0-1024 characters
    */
@@ -2246,7 +2664,7 @@ export interface TelegramSendVoiceParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a file from the Internet,
    * or upload a new file using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  voice: Buffer | string;
+  voice: TelegramInputFile;
   /**
    * Duration of sent video in seconds
    */
@@ -2266,7 +2684,7 @@ export interface TelegramSendVoiceParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Video caption (may also be used when resending videos by file_id), 0-1024 characters
    */
@@ -2304,7 +2722,7 @@ export interface TelegramSendVoiceParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a file from the Internet,
    * or upload a new video using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  video_note: Buffer | string;
+  video_note: TelegramInputFile;
   /**
    * Duration of sent video in seconds
    */
@@ -2320,7 +2738,7 @@ export interface TelegramSendVoiceParams extends TelegramChatId {
    * “attach://<file_attach_name>” if the thumbnail was uploaded using
    * multipart/form-data under <file_attach_name>. [More info on Sending Files »](https://)core.telegram.org/bots/api#sending-files)
    */
-  thumb?: Buffer | string;
+  thumb?: TelegramInputFile;
   /**
    * Send [Markdown](https://core.telegram.org/bots/api#markdown-style) or
    * [HTML](https://core.telegram.org/bots/api#html-style), if you want  apps to show
@@ -2352,7 +2770,7 @@ export interface TelegramSendMediaGroupParams extends TelegramChatId {
   /**
    * A JSON-serialized array describing photos and videos to be sent, must include 2–10 items
    */
-  media: TelegramInputMediaPhoto[] | TelegramInputMediaVideo[];
+  media: (TelegramInputMediaPhoto | TelegramInputMediaVideo)[];
   /**
    * Sends the message [silently](https://telegram.org/blog/channels-2-0#silent-messages). Users will receive a notification with no sound.
    */
@@ -2675,7 +3093,7 @@ export interface TelegramSetChatPhotoParams extends TelegramChatId {
   /**
    * New chat photo, uploaded using multipart/form-data
    */
-  photo: Buffer;
+  photo: TelegramUploadFile;
 }
 
 export interface TelegramDeleteChatPhotoParams extends TelegramChatId {}
@@ -2864,7 +3282,7 @@ export interface TelegramSendStickerParams extends TelegramChatId {
    * pass an HTTP URL as a String for  to get a .webp file from the Internet, or upload a new one
    * using multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  sticker: Buffer | string;
+  sticker: TelegramInputFile;
   /**
    * Sends the message [silently](https://telegram.org/blog/channels-2-0#silent-messages). Users will receive a notification with no sound.
    */
@@ -2902,7 +3320,7 @@ export interface TelegramUploadStickerFileParams {
    * ***Png* image with the sticker, must be up to 512 kilobytes in size, dimensions must not exceed 512px,
    * and either width or height must be exactly 512px. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  png_sticker: Buffer;
+  png_sticker: TelegramUploadFile;
 }
 
 export interface TelegramCreateNewStickerSetParams {
@@ -2926,7 +3344,7 @@ export interface TelegramCreateNewStickerSetParams {
    *  servers, pass an HTTP URL as a String for  to get a file from the Internet, or upload a new one using
    * multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  png_sticker: Buffer | string;
+  png_sticker: TelegramInputFile;
   /**
    * One or more emoji corresponding to the sticker
    */
@@ -2956,7 +3374,7 @@ export interface TelegramAddStickerToSetParams {
    *  servers, pass an HTTP URL as a String for  to get a file from the Internet, or upload a new one using
    * multipart/form-data. [More info on Sending Files »](https://core.telegram.org/bots/api#sending-files)
    */
-  png_sticker: Buffer | string;
+  png_sticker: TelegramInputFile;
   /**
    * One or more emoji corresponding to the sticker
    */
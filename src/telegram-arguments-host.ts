@@ -0,0 +1,40 @@
+import { ArgumentsHost, ExecutionContext } from '@nestjs/common';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramContext } from './telegram.context';
+
+/**
+ * What `host.getType()` returns in the guards, interceptors and filters of update handlers.
+ */
+export type TelegramContextType = 'telegram';
+
+/**
+ * Gives the guards, interceptors and exception filters of update handlers access to the update.
+ *
+ * ```typescript
+ * canActivate(context: ExecutionContext) {
+ *   const ctx = TelegramArgumentsHost.create(context).getContext();
+ *   return ctx.chat?.type === 'private';
+ * }
+ * ```
+ */
+export class TelegramArgumentsHost extends ExecutionContextHost {
+  static create(host: ArgumentsHost | ExecutionContext): TelegramArgumentsHost {
+    const context = host as Partial<ExecutionContext>;
+    const telegramHost = new TelegramArgumentsHost(
+      host.getArgs(),
+      context.getClass?.(),
+      context.getHandler?.(),
+    );
+    telegramHost.setType(host.getType());
+    return telegramHost;
+  }
+
+  getUpdate(): Update {
+    return this.getArgByIndex(0);
+  }
+
+  getContext(): TelegramContext {
+    return this.getArgByIndex(1);
+  }
+}
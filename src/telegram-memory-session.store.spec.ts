@@ -0,0 +1,38 @@
+import { TelegramMemorySessionStore } from './telegram-memory-session.store';
+
+describe('TelegramMemorySessionStore', () => {
+  let store: TelegramMemorySessionStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new TelegramMemorySessionStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return a copy of the stored session', async () => {
+    const session = { step: 1 };
+    await store.set('1:1', session);
+    session.step = 2;
+    expect(await store.get('1:1')).toEqual({ step: 1 });
+    expect(await store.get('1:2')).toBeUndefined();
+  });
+
+  it('should forget deleted sessions', async () => {
+    await store.set('1:1', { step: 1 });
+    await store.delete('1:1');
+    expect(await store.get('1:1')).toBeUndefined();
+  });
+
+  it('should forget sessions once their time to live is over', async () => {
+    await store.set('1:1', { step: 1 }, 60);
+    await store.set('1:2', { step: 1 });
+    jest.advanceTimersByTime(59999);
+    expect(await store.get('1:1')).toEqual({ step: 1 });
+    jest.advanceTimersByTime(1);
+    expect(await store.get('1:1')).toBeUndefined();
+    expect(await store.get('1:2')).toEqual({ step: 1 });
+  });
+});
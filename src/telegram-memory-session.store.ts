@@ -0,0 +1,58 @@
+import { TelegramSession, TelegramSessionStore } from './interfaces';
+
+const SWEEP_INTERVAL = 60000;
+
+interface StoredSession {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Keeps sessions in memory, they are lost when the application stops.
+ * Sessions are stored serialized, like an external store would.
+ */
+export class TelegramMemorySessionStore implements TelegramSessionStore {
+  private readonly sessions = new Map<string, StoredSession>();
+  private lastSweep = Date.now();
+
+  async get(key: string): Promise<TelegramSession | undefined> {
+    const stored = this.sessions.get(key);
+    if (!stored || this.isExpired(stored, Date.now())) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+    return JSON.parse(stored.value);
+  }
+
+  async set(key: string, session: TelegramSession, ttl?: number) {
+    const now = Date.now();
+    this.sweep(now);
+    this.sessions.set(key, {
+      value: JSON.stringify(session),
+      expiresAt: ttl ? now + ttl * 1000 : undefined,
+    });
+  }
+
+  async delete(key: string) {
+    this.sessions.delete(key);
+  }
+
+  private isExpired({ expiresAt }: StoredSession, now: number): boolean {
+    return expiresAt !== undefined && expiresAt <= now;
+  }
+
+  /**
+   * Drops the expired sessions from time to time, so sessions never read again do not pile up.
+   */
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+    this.sessions.forEach((stored, key) => {
+      if (this.isExpired(stored, now)) {
+        this.sessions.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { Type } from '@nestjs/common';
+import { mapCommandArgs } from './telegram.command';
+import { TelegramContext } from './telegram.context';
+import { TelegramParamtype } from './telegram-paramtype.enum';
+
+/**
+ * Picks the value of a decorated handler parameter out of the `[update, context]` arguments.
+ */
+export class TelegramParamsFactory {
+  exchangeKeyForValue(
+    type: number,
+    data: unknown,
+    [update, context]: [unknown, TelegramContext],
+  ): unknown {
+    switch (type) {
+      case TelegramParamtype.UPDATE:
+        return update;
+      case TelegramParamtype.CONTEXT:
+        return context;
+      case TelegramParamtype.COMMAND_ARGS:
+        return mapCommandArgs(
+          context.command?.args || [],
+          data as Type<unknown>,
+        );
+      case TelegramParamtype.SESSION:
+        return context.session;
+      case TelegramParamtype.WIZARD:
+        return context.wizard;
+      default:
+        return undefined;
+    }
+  }
+}
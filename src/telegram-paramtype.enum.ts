@@ -0,0 +1,10 @@
+/**
+ * What a parameter of an update handler receives.
+ */
+export enum TelegramParamtype {
+  UPDATE,
+  CONTEXT,
+  COMMAND_ARGS,
+  SESSION,
+  WIZARD,
+}
@@ -0,0 +1,113 @@
+import { NEVER, of, throwError } from 'rxjs';
+import { inspect } from 'util';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramPollingService } from './telegram-polling.service';
+import { TelegramUpdatesService } from './telegram-updates.service';
+
+const getUpdatesMock = jest.fn();
+
+const update = (update_id: number): Update => ({ update_id });
+
+describe('TelegramPollingService', () => {
+  let service: TelegramPollingService;
+  let received: Update[];
+
+  const createService = (polling: any = { timeout: 10 }) => {
+    const updates = new TelegramUpdatesService();
+    service = new TelegramPollingService(
+      { botKey: 'someBotKey', polling },
+      { getUpdates: getUpdatesMock } as any,
+      updates,
+    );
+    received = [];
+    updates.updates.subscribe((next) => received.push(next));
+  };
+
+  beforeEach(() => {
+    createService();
+  });
+
+  afterEach(async () => {
+    getUpdatesMock.mockReturnValue(of([]));
+    await service.stop();
+    jest.resetAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should not expose the bot key', () => {
+    expect(inspect(service)).not.toContain('someBotKey');
+  });
+
+  it('should not poll unless enabled', () => {
+    createService(false);
+    service.onApplicationBootstrap();
+    expect(service.isPolling).toBe(false);
+    expect(getUpdatesMock).not.toHaveBeenCalled();
+  });
+
+  it('should emit updates and poll again after the last one', () => {
+    getUpdatesMock
+      .mockReturnValueOnce(of([update(1), update(2)]))
+      .mockReturnValueOnce(NEVER);
+    service.onApplicationBootstrap();
+    expect(received).toEqual([update(1), update(2)]);
+    expect(getUpdatesMock.mock.calls[0][0]).toEqual({
+      offset: undefined,
+      limit: undefined,
+      timeout: 10,
+      allowed_updates: undefined,
+    });
+    expect(getUpdatesMock.mock.calls[1][0].offset).toBe(3);
+  });
+
+  it('should wait before polling again after an error', () => {
+    jest.useFakeTimers();
+    getUpdatesMock
+      .mockReturnValueOnce(throwError(() => new Error('Network Error')))
+      .mockReturnValueOnce(of([update(5)]))
+      .mockReturnValueOnce(NEVER);
+    service.start();
+    expect(getUpdatesMock).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1000);
+    expect(getUpdatesMock).toHaveBeenCalledTimes(3);
+    expect(received).toEqual([update(5)]);
+  });
+
+  it('should confirm the received updates when stopped', async () => {
+    getUpdatesMock
+      .mockReturnValueOnce(of([update(7)]))
+      .mockReturnValueOnce(throwError(() => new Error('Network Error')))
+      .mockReturnValueOnce(of([]));
+    service.start();
+    await service.onApplicationShutdown();
+    expect(service.isPolling).toBe(false);
+    expect(getUpdatesMock).toHaveBeenCalledTimes(3);
+    expect(getUpdatesMock.mock.calls[2][0]).toEqual({
+      offset: 8,
+      limit: 1,
+      timeout: 0,
+    });
+  });
+
+  it('should not confirm updates twice', async () => {
+    getUpdatesMock
+      .mockReturnValueOnce(of([update(7)]))
+      .mockReturnValueOnce(of([]))
+      .mockReturnValueOnce(NEVER);
+    service.start();
+    await service.stop();
+    expect(getUpdatesMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resume from the last offset when started again', async () => {
+    getUpdatesMock
+      .mockReturnValueOnce(of([update(7)]))
+      .mockReturnValueOnce(NEVER)
+      .mockReturnValueOnce(of([]))
+      .mockReturnValueOnce(NEVER);
+    service.start();
+    await service.stop();
+    service.start();
+    expect(getUpdatesMock.mock.calls[3][0].offset).toBe(8);
+  });
+});
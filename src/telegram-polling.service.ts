@@ -0,0 +1,143 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import {
+  defer,
+  lastValueFrom,
+  repeat,
+  retry,
+  Subscription,
+  tap,
+  timer,
+} from 'rxjs';
+import { TelegramModuleOptions, TelegramPollingOptions } from './interfaces';
+import { TELEGRAM_MODULE_OPTIONS } from './telegram.constants';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramService } from './telegram.service';
+
+const DEFAULT_POLLING_OPTIONS: TelegramPollingOptions = {
+  timeout: 30,
+  retryDelay: 1000,
+  maxRetryDelay: 30000,
+};
+
+// tslint:disable:one-line (prettier moves the brace of long class headings)
+/**
+ * Receives updates with `getUpdates` long polling while the application runs,
+ * if `polling` is set in the module options, and passes them to the `TelegramUpdatesService`.
+ */
+@Injectable()
+export class TelegramPollingService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  // tslint:enable:one-line
+  private readonly logger = new Logger(TelegramPollingService.name);
+  private subscription?: Subscription;
+  /**
+   * Identifier of the next update to request
+   */
+  private offset?: number;
+  /**
+   * Offset of the last successful call, all updates before it are confirmed
+   */
+  private confirmedOffset?: number;
+  private readonly polling?: TelegramPollingOptions | boolean;
+
+  constructor(
+    @Inject(TELEGRAM_MODULE_OPTIONS)
+    { polling }: TelegramModuleOptions,
+    private readonly telegram: TelegramService,
+    private readonly updates: TelegramUpdatesService,
+  ) {
+    this.polling = polling;
+  }
+
+  get isPolling(): boolean {
+    return !!this.subscription;
+  }
+
+  onApplicationBootstrap() {
+    if (this.polling) {
+      this.start();
+    }
+  }
+
+  async onApplicationShutdown() {
+    await this.stop();
+  }
+
+  /**
+   * Starts polling, picking up after the last update received.
+   */
+  start() {
+    if (this.subscription) {
+      return;
+    }
+    const options: TelegramPollingOptions = {
+      ...DEFAULT_POLLING_OPTIONS,
+      ...(typeof this.polling === 'object' ? this.polling : {}),
+    };
+    this.subscription = defer(() => {
+      const offset = this.offset;
+      return this.telegram
+        .getUpdates({
+          offset,
+          limit: options.limit,
+          timeout: options.timeout,
+          allowed_updates: options.allowedUpdates,
+        })
+        .pipe(tap(() => (this.confirmedOffset = offset)));
+    })
+      .pipe(
+        tap((updates) =>
+          updates.forEach((update) => {
+            this.offset = update.update_id + 1;
+            this.updates.push(update);
+          }),
+        ),
+        retry({
+          resetOnSuccess: true,
+          delay: (error: Error, attempt: number) => {
+            const delay = Math.min(
+              options.maxRetryDelay,
+              options.retryDelay * 2 ** (attempt - 1),
+            );
+            this.logger.error(
+              `Polling for updates failed, trying again in ${delay}ms: ${error.message}`,
+            );
+            return timer(delay);
+          },
+        }),
+        repeat(),
+      )
+      .subscribe();
+  }
+
+  /**
+   * Stops polling and confirms the updates received so far, so they are not delivered again.
+   */
+  async stop() {
+    if (!this.subscription) {
+      return;
+    }
+    this.subscription.unsubscribe();
+    this.subscription = undefined;
+    if (this.offset === undefined || this.offset === this.confirmedOffset) {
+      return;
+    }
+    try {
+      await lastValueFrom(
+        this.telegram.getUpdates({ offset: this.offset, limit: 1, timeout: 0 }),
+      );
+      this.confirmedOffset = this.offset;
+    } catch (error) {
+      this.logger.warn(
+        `Could not confirm the updates received: ${error.message}`,
+      );
+    }
+  }
+}
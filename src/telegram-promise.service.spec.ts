@@ -0,0 +1,63 @@
+import { of } from 'rxjs';
+import { TelegramForbiddenError } from './errors';
+import { TelegramUser } from './interfaces/telegramTypes.interface';
+import { TelegramPromiseService } from './telegram-promise.service';
+import { TelegramService } from './telegram.service';
+
+const postMock = jest.fn();
+
+const user: TelegramUser = {
+  id: 45872,
+  is_bot: true,
+  first_name: 'Test_bot',
+};
+
+describe('TelegramPromiseService', () => {
+  let telegram: TelegramService;
+  let service: TelegramPromiseService;
+
+  beforeEach(() => {
+    telegram = new TelegramService({ botKey: 'someBotKey' }, {
+      post: postMock,
+    } as any);
+    telegram.onModuleInit();
+    service = new TelegramPromiseService(telegram);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should resolve with the result of the call', async () => {
+    postMock.mockReturnValueOnce(of({ data: { ok: true, result: user } }));
+    const me: TelegramUser = await service.getMe();
+    expect(me).toEqual(user);
+  });
+
+  it('should reject with the error of the call', async () => {
+    postMock.mockReturnValueOnce(
+      of({ data: { ok: false, error_code: 403, description: 'Forbidden' } }),
+    );
+    await expect(
+      service.sendMessage({ chat_id: 1, text: 'hi' }),
+    ).rejects.toBeInstanceOf(TelegramForbiddenError);
+  });
+
+  it('should pass synchronous methods through', () => {
+    expect(service.getFileUrl('photos/file_1.jpg')).toBe(
+      telegram.getFileUrl('photos/file_1.jpg'),
+    );
+  });
+
+  it('should send the calls of withOptions with the options', async () => {
+    postMock.mockReturnValueOnce(of({ data: { ok: true, result: user } }));
+    const withTimeout = service.withOptions({ timeout: 5000 });
+    expect(withTimeout).toBeInstanceOf(TelegramPromiseService);
+    await expect(withTimeout.getMe()).resolves.toEqual(user);
+    expect(postMock.mock.calls[0][2]).toEqual({ timeout: 5000 });
+  });
+
+  it('should not expose lifecycle hooks', () => {
+    expect((service as any).onModuleInit).toBeUndefined();
+  });
+});
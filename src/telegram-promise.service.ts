@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { isObservable, lastValueFrom, Observable } from 'rxjs';
+import { TelegramCallOptions } from './interfaces';
+import { TelegramService } from './telegram.service';
+
+const LIFECYCLE_HOOK = /^on[A-Z]/;
+
+type TelegramApiMethod = {
+  [K in keyof TelegramService]: TelegramService[K] extends (
+    ...args: any[]
+  ) => any
+    ? K extends `on${Capitalize<string>}` | 'withOptions'
+      ? never
+      : K
+    : never;
+}[keyof TelegramService];
+
+/**
+ * The methods of `TelegramService`, with every `Observable` swapped for a `Promise` of its last value.
+ */
+export type TelegramPromiseApi = {
+  [K in TelegramApiMethod]: TelegramService[K] extends (
+    ...args: infer A
+  ) => Observable<infer R>
+    ? (...args: A) => Promise<R>
+    : TelegramService[K];
+};
+
+export interface TelegramPromiseService extends TelegramPromiseApi {}
+
+/**
+ * Same methods as `TelegramService`, returning promises for use with `async`/`await`.
+ */
+@Injectable()
+export class TelegramPromiseService {
+  constructor(private readonly telegram: TelegramService) {
+    const prototype = TelegramService.prototype;
+    Object.getOwnPropertyNames(prototype)
+      .filter(
+        (name) =>
+          !(name in TelegramPromiseService.prototype) &&
+          !LIFECYCLE_HOOK.test(name) &&
+          typeof prototype[name] === 'function',
+      )
+      .forEach((name) => {
+        this[name] = (...args: unknown[]) => {
+          const result = telegram[name](...args);
+          return isObservable(result) ? lastValueFrom(result) : result;
+        };
+      });
+  }
+
+  /**
+   * Returns the service sending its requests with the given options, like `TelegramService.withOptions()`.
+   */
+  withOptions(options: TelegramCallOptions): TelegramPromiseService {
+    return new TelegramPromiseService(this.telegram.withOptions(options));
+  }
+}
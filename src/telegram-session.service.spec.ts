@@ -0,0 +1,84 @@
+import { TelegramSessionOptions, TelegramSessionStore } from './interfaces';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramContext } from './telegram.context';
+import { TelegramSessionService } from './telegram-session.service';
+import { TelegramService } from './telegram.service';
+
+const update: Update = {
+  update_id: 1,
+  message: {
+    message_id: 1,
+    date: 0,
+    chat: { id: -100, type: 'group' },
+    from: { id: 7, is_bot: false, first_name: 'User' },
+    text: 'hello',
+  },
+};
+
+describe('TelegramSessionService', () => {
+  let store: jest.Mocked<TelegramSessionStore>;
+
+  const createService = (session: TelegramSessionOptions | boolean) =>
+    new TelegramSessionService({ botKey: 'someBotKey', session });
+
+  const contextFor = (value: Update) =>
+    new TelegramContext(value, {} as TelegramService);
+
+  beforeEach(() => {
+    store = {
+      get: jest.fn().mockResolvedValue(undefined),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should key sessions by chat, user, both or a function', () => {
+    const context = contextFor(update);
+    expect(createService({ key: 'chat' }).getSessionKey(context)).toBe('-100');
+    expect(createService({ key: 'user' }).getSessionKey(context)).toBe('7');
+    expect(createService(true).getSessionKey(context)).toBe('-100:7');
+    expect(
+      createService({ key: (ctx) => `text:${ctx.message.text}` }).getSessionKey(
+        context,
+      ),
+    ).toBe('text:hello');
+  });
+
+  it('should load the stored session or start an empty one', async () => {
+    const service = createService({ store });
+    const context = contextFor(update);
+    await service.load(context);
+    expect(context.session).toEqual({});
+    store.get.mockResolvedValueOnce({ step: 2 });
+    await service.load(context);
+    expect(store.get).toHaveBeenCalledWith('-100:7');
+    expect(context.session).toEqual({ step: 2 });
+  });
+
+  it('should save the session with its time to live', async () => {
+    const service = createService({ store, ttl: 3600 });
+    const context = contextFor(update);
+    context.session = { step: 3 };
+    await service.save(context);
+    expect(store.set).toHaveBeenCalledWith('-100:7', { step: 3 }, 3600);
+  });
+
+  it('should delete the session once it is empty', async () => {
+    const service = createService({ store });
+    const context = contextFor(update);
+    context.session = undefined;
+    await service.save(context);
+    expect(store.delete).toHaveBeenCalledWith('-100:7');
+  });
+
+  it('should do nothing when sessions are disabled or the update has no key', async () => {
+    const context = contextFor(update);
+    await createService(false).load(context);
+    expect(context.session).toBeUndefined();
+    const service = createService({ store, key: () => undefined });
+    await service.load(context);
+    await service.save(context);
+    expect(store.get).not.toHaveBeenCalled();
+    expect(store.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  TelegramModuleOptions,
+  TelegramSessionOptions,
+  TelegramSessionStore,
+} from './interfaces';
+import { TELEGRAM_MODULE_OPTIONS } from './telegram.constants';
+import { TelegramContext } from './telegram.context';
+import { TelegramMemorySessionStore } from './telegram-memory-session.store';
+
+/**
+ * Loads the session of an update into its context and saves it back,
+ * if `session` is set in the module options.
+ */
+@Injectable()
+export class TelegramSessionService {
+  private readonly options?: TelegramSessionOptions;
+  private readonly store?: TelegramSessionStore;
+
+  constructor(
+    @Inject(TELEGRAM_MODULE_OPTIONS)
+    { session }: TelegramModuleOptions,
+  ) {
+    if (session) {
+      this.options = session === true ? {} : session;
+      this.store = this.options.store || new TelegramMemorySessionStore();
+    }
+  }
+
+  get isEnabled(): boolean {
+    return !!this.store;
+  }
+
+  /**
+   * Key of the session the update belongs to, or `undefined` if it has none.
+   */
+  getSessionKey(context: TelegramContext): string | undefined {
+    const key = this.options?.key || 'chat_user';
+    if (typeof key === 'function') {
+      return key(context);
+    }
+    const chatId = context.chat?.id;
+    const userId = context.from?.id;
+    switch (key) {
+      case 'chat':
+        return chatId === undefined ? undefined : `${chatId}`;
+      case 'user':
+        return userId === undefined ? undefined : `${userId}`;
+      default:
+        return chatId === undefined || userId === undefined
+          ? undefined
+          : `${chatId}:${userId}`;
+    }
+  }
+
+  /**
+   * Sets `context.session` to the stored session, or to an empty one.
+   */
+  async load(context: TelegramContext): Promise<void> {
+    const key = this.isEnabled ? this.getSessionKey(context) : undefined;
+    if (key !== undefined) {
+      context.session = (await this.store.get(key)) || {};
+    }
+  }
+
+  /**
+   * Stores `context.session`, or deletes the stored session once it is empty.
+   */
+  async save(context: TelegramContext): Promise<void> {
+    const key = this.isEnabled ? this.getSessionKey(context) : undefined;
+    if (key === undefined) {
+      return;
+    }
+    const session = context.session;
+    if (!session || !Object.keys(session).length) {
+      await this.store.delete(key);
+    } else {
+      await this.store.set(key, session, this.options.ttl);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { Update } from './interfaces/telegramTypes.interface';
+
+/**
+ * Every update the bot receives, whether it was polled or pushed to the webhook.
+ */
+@Injectable()
+export class TelegramUpdatesService {
+  private readonly received = new Subject<Update>();
+
+  /**
+   * Emits every update received, in order.
+   */
+  readonly updates: Observable<Update> = this.received.asObservable();
+
+  push(update: Update) {
+    this.received.next(update);
+  }
+}
@@ -0,0 +1,52 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramModule } from './telegram.module';
+
+describe('TelegramWebhookController', () => {
+  let app: INestApplication;
+  let received: Update[];
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        TelegramModule.forRoot({
+          botKey: 'someBotKey',
+          webhook: { path: 'telegram/webhook' },
+        }),
+      ],
+    }).compile();
+    app = module.createNestApplication();
+    await app.init();
+    received = [];
+    app
+      .get(TelegramUpdatesService)
+      .updates.subscribe((update) => received.push(update));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should push the update into the update stream', async () => {
+    const update: Update = {
+      update_id: 10,
+      message: { message_id: 1, date: 0, chat: { id: 1, type: 'private' } },
+    };
+    await request(app.getHttpServer())
+      .post('/telegram/webhook')
+      .send(update)
+      .expect(200);
+    expect(received).toEqual([update]);
+  });
+
+  it('should reject a body that is not an update', async () => {
+    await request(app.getHttpServer())
+      .post('/telegram/webhook')
+      .send({ hello: 'world' })
+      .expect(400);
+    expect(received).toEqual([]);
+  });
+});
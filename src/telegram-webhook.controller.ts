@@ -0,0 +1,34 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Type,
+  UseGuards,
+} from '@nestjs/common';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramWebhookGuard } from './telegram-webhook.guard';
+
+/**
+ * Creates the controller receiving the updates Telegram pushes to the webhook at the given path.
+ */
+export function createTelegramWebhookController(path: string): Type<unknown> {
+  @Controller(path)
+  @UseGuards(TelegramWebhookGuard)
+  class TelegramWebhookController {
+    constructor(private readonly updates: TelegramUpdatesService) {}
+
+    @Post()
+    @HttpCode(HttpStatus.OK)
+    handleUpdate(@Body() update: Update) {
+      if (typeof update?.update_id !== 'number') {
+        throw new BadRequestException('Request body is not a Telegram update');
+      }
+      this.updates.push(update);
+    }
+  }
+  return TelegramWebhookController;
+}
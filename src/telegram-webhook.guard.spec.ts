@@ -0,0 +1,73 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { inspect } from 'util';
+import { TelegramWebhookOptions } from './interfaces';
+import { isTelegramIp, TelegramWebhookGuard } from './telegram-webhook.guard';
+
+describe('TelegramWebhookGuard', () => {
+  const contextFor = (ip: string, headers: Record<string, string> = {}) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ ip, headers }) }),
+    } as unknown as ExecutionContext);
+
+  const createGuard = (webhook: TelegramWebhookOptions) =>
+    new TelegramWebhookGuard({ botKey: 'someBotKey', webhook });
+
+  it('should not expose the bot key', () => {
+    const guard = createGuard({ secretToken: 'secret' });
+    expect(inspect(guard)).not.toContain('someBotKey');
+    expect(JSON.stringify(guard)).not.toContain('someBotKey');
+  });
+
+  it('should let every request through when nothing is configured', () => {
+    expect(createGuard({}).canActivate(contextFor('127.0.0.1'))).toBe(true);
+  });
+
+  it('should accept a request carrying the secret token', () => {
+    const guard = createGuard({ secretToken: 'secret' });
+    expect(
+      guard.canActivate(
+        contextFor('127.0.0.1', {
+          'x-telegram-bot-api-secret-token': 'secret',
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject a missing or wrong secret token', () => {
+    const guard = createGuard({ secretToken: 'secret' });
+    expect(() => guard.canActivate(contextFor('127.0.0.1'))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      guard.canActivate(
+        contextFor('127.0.0.1', {
+          'x-telegram-bot-api-secret-token': 'secreT',
+        }),
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should reject requests from outside Telegram networks when asked to', () => {
+    const guard = createGuard({ checkSourceIp: true });
+    expect(guard.canActivate(contextFor('149.154.167.220'))).toBe(true);
+    expect(() => guard.canActivate(contextFor('10.0.0.1'))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  describe('isTelegramIp', () => {
+    it.each([
+      ['149.154.160.0', true],
+      ['149.154.175.255', true],
+      ['::ffff:91.108.6.1', true],
+      ['91.108.7.255', true],
+      ['149.154.176.0', false],
+      ['91.108.8.0', false],
+      ['::1', false],
+      ['not an ip', false],
+      [undefined, false],
+    ])('should tell whether %s is a Telegram address', (ip, expected) => {
+      expect(isTelegramIp(ip)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { TelegramModuleOptions, TelegramWebhookOptions } from './interfaces';
+import { TELEGRAM_MODULE_OPTIONS } from './telegram.constants';
+
+export const TELEGRAM_SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+
+/**
+ * The IPv4 ranges Telegram sends webhook requests from.
+ *
+ * @see https://core.telegram.org/bots/webhooks#the-short-version
+ */
+const TELEGRAM_SUBNETS: [string, number][] = [
+  ['149.154.160.0', 20],
+  ['91.108.4.0', 22],
+];
+
+/**
+ * Whether the address belongs to one of the ranges Telegram sends webhook requests from.
+ */
+export function isTelegramIp(ip?: string): boolean {
+  const address = toNumber(ip?.replace(/^::ffff:/, ''));
+  return (
+    address !== undefined &&
+    TELEGRAM_SUBNETS.some(([subnet, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(address / size) === Math.floor(toNumber(subnet) / size);
+    })
+  );
+}
+
+function toNumber(ip?: string): number | undefined {
+  const parts = (ip || '').split('.').map(Number);
+  if (
+    parts.length !== 4 ||
+    parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)
+  ) {
+    return undefined;
+  }
+  return parts.reduce((address, part) => address * 256 + part, 0);
+}
+
+/**
+ * Lets a webhook request through only if it carries the configured secret token
+ * and, when `checkSourceIp` is set, comes from one of Telegram's networks.
+ */
+@Injectable()
+export class TelegramWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(TelegramWebhookGuard.name);
+  private readonly options: TelegramWebhookOptions;
+
+  constructor(
+    @Inject(TELEGRAM_MODULE_OPTIONS)
+    { webhook }: TelegramModuleOptions,
+  ) {
+    this.options = webhook || {};
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const { secretToken, checkSourceIp } = this.options;
+    if (checkSourceIp && !isTelegramIp(request.ip)) {
+      return this.reject(`it comes from ${request.ip}`);
+    }
+    if (
+      secretToken &&
+      !isSameToken(request.headers[TELEGRAM_SECRET_TOKEN_HEADER], secretToken)
+    ) {
+      return this.reject(
+        `the secret token does not match (from ${request.ip})`,
+      );
+    }
+    return true;
+  }
+
+  private reject(reason: string): never {
+    this.logger.warn(`Rejected a webhook request because ${reason}`);
+    throw new UnauthorizedException();
+  }
+}
+
+function isSameToken(received: unknown, expected: string): boolean {
+  if (typeof received !== 'string') {
+    return false;
+  }
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    receivedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(receivedBuffer, expectedBuffer)
+  );
+}
@@ -0,0 +1,40 @@
+import { TelegramSession } from './interfaces';
+import { TelegramWizardContext } from './telegram-wizard.context';
+
+describe('TelegramWizardContext', () => {
+  let session: TelegramSession;
+  let wizard: TelegramWizardContext;
+
+  beforeEach(() => {
+    session = { language: 'en' };
+    wizard = TelegramWizardContext.enter(session, 'onboarding', { step: 0 });
+  });
+
+  it('should store the progress of the wizard entered in the session', () => {
+    expect(wizard.isActive).toBe(true);
+    expect(wizard.name).toBe('onboarding');
+    expect(wizard.cursor).toBe(0);
+    expect(wizard.state).toEqual({ step: 0 });
+    expect(session.__wizard).toEqual(
+      expect.objectContaining({ name: 'onboarding', entering: true }),
+    );
+  });
+
+  it('should move between steps', () => {
+    wizard.next();
+    wizard.next();
+    expect(wizard.cursor).toBe(2);
+    wizard.back();
+    expect(wizard.cursor).toBe(1);
+    wizard.selectStep(0);
+    wizard.back();
+    expect(wizard.cursor).toBe(0);
+  });
+
+  it('should remove the progress when leaving', () => {
+    wizard.leave();
+    expect(wizard.isActive).toBe(false);
+    expect(wizard.state).toEqual({});
+    expect(session).toEqual({ language: 'en' });
+  });
+});
@@ -0,0 +1,88 @@
+import { TelegramSession, TelegramWizardProgress } from './interfaces';
+import { TELEGRAM_WIZARD_SESSION_KEY } from './telegram.constants';
+
+/**
+ * The wizard a chat or user is in. Moving between steps takes effect with the next update,
+ * the progress being saved in the session.
+ */
+export class TelegramWizardContext {
+  constructor(private readonly session: TelegramSession) {}
+
+  /**
+   * Starts the wizard in the session, its first step runs once the current handler completes.
+   */
+  static enter(
+    session: TelegramSession,
+    name: string,
+    state: Record<string, any> = {},
+  ): TelegramWizardContext {
+    const progress: TelegramWizardProgress = {
+      name,
+      cursor: 0,
+      state,
+      updatedAt: Date.now(),
+      entering: true,
+    };
+    session[TELEGRAM_WIZARD_SESSION_KEY] = progress;
+    return new TelegramWizardContext(session);
+  }
+
+  /**
+   * Whether the wizard has not been left
+   */
+  get isActive(): boolean {
+    return !!this.progress;
+  }
+
+  get name(): string | undefined {
+    return this.progress?.name;
+  }
+
+  /**
+   * Index of the step handling the next update, in the order of the `@WizardStep()` numbers
+   */
+  get cursor(): number | undefined {
+    return this.progress?.cursor;
+  }
+
+  /**
+   * Data gathered by the steps, saved with the session
+   */
+  get state(): Record<string, any> {
+    return this.progress?.state || {};
+  }
+
+  private get progress(): TelegramWizardProgress | undefined {
+    return this.session[TELEGRAM_WIZARD_SESSION_KEY];
+  }
+
+  /**
+   * Has the next update handled by the following step. Moving past the last step completes the wizard.
+   */
+  next() {
+    this.selectStep((this.cursor ?? -1) + 1);
+  }
+
+  /**
+   * Has the next update handled by the previous step.
+   */
+  back() {
+    this.selectStep(Math.max(0, (this.cursor ?? 1) - 1));
+  }
+
+  /**
+   * Has the next update handled by the step at the given index.
+   */
+  selectStep(cursor: number) {
+    if (this.progress) {
+      this.progress.cursor = cursor;
+    }
+  }
+
+  /**
+   * Leaves the wizard, the next update is handled by the usual handlers.
+   */
+  leave() {
+    delete this.session[TELEGRAM_WIZARD_SESSION_KEY];
+  }
+}
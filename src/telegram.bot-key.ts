@@ -0,0 +1,47 @@
+import { TelegramException } from './interfaces/telegramTypes.interface';
+
+/**
+ * Hides the secret part of a bot token, keeping the bot identifier before the colon
+ * so the bot can still be told apart in messages, e.g. `123456:***`.
+ */
+export function maskBotKey(botKey?: string): string {
+  const separator = (botKey || '').indexOf(':');
+  return separator === -1 ? '***' : `${botKey.slice(0, separator)}:***`;
+}
+
+/**
+ * Masks every occurrence of the bot token in the text, e.g. in the URL of a failed request.
+ */
+export function redactBotKey(text: string, botKey?: string): string {
+  if (typeof text !== 'string' || !botKey) {
+    return text;
+  }
+  const masked = maskBotKey(botKey);
+  return [botKey, encodeURIComponent(botKey)].reduce(
+    (redacted, key) => redacted.split(key).join(masked),
+    text,
+  );
+}
+
+/**
+ * Copy of an error a request failed with, keeping what the Telegram errors are built from.
+ * Telegram errors are built from the response only, so they are returned as they are.
+ * Errors of axios carry the request, and its URL with the bot token, so they are not kept as they are.
+ */
+export function redactError(error: any, botKey?: string): any {
+  if (
+    !(error instanceof Error) ||
+    error instanceof TelegramException ||
+    !botKey
+  ) {
+    return error;
+  }
+  const { name, code, isAxiosError, response } = error as any;
+  return Object.assign(new Error(redactBotKey(error.message, botKey)), {
+    name,
+    code,
+    isAxiosError,
+    stack: redactBotKey(error.stack, botKey),
+    response: response && { status: response.status, data: response.data },
+  });
+}
@@ -0,0 +1,104 @@
+import { CommandArg } from './decorators';
+import { TelegramMessage } from './interfaces/telegramTypes.interface';
+import {
+  isCommandForBot,
+  mapCommandArgs,
+  parseCommand,
+  splitCommandArgs,
+} from './telegram.command';
+
+const commandMessage = (text: string, length: number): TelegramMessage => ({
+  message_id: 1,
+  date: 0,
+  chat: { id: 1, type: 'group' },
+  text,
+  entities: [{ type: 'bot_command', offset: 0, length }],
+});
+
+class RemindArgs {
+  @CommandArg()
+  delay: string;
+
+  @CommandArg({ rest: true })
+  text: string;
+}
+
+describe('parseCommand', () => {
+  it('should read the command, the bot username and the arguments', () => {
+    expect(
+      parseCommand(commandMessage('/remind@SomeBot 10m "check oven"', 15)),
+    ).toEqual({
+      command: 'remind',
+      botUsername: 'SomeBot',
+      argsText: '10m "check oven"',
+      args: ['10m', 'check oven'],
+    });
+  });
+
+  it('should only read commands marked by an entity at the start', () => {
+    expect(
+      parseCommand({ ...commandMessage('/start', 6), entities: [] }),
+    ).toBeUndefined();
+    expect(
+      parseCommand({
+        ...commandMessage('see /start', 6),
+        entities: [{ type: 'bot_command', offset: 4, length: 6 }],
+      }),
+    ).toBeUndefined();
+    expect(parseCommand(undefined)).toBeUndefined();
+  });
+});
+
+describe('isCommandForBot', () => {
+  const command = { command: 'start', argsText: '', args: [] };
+
+  it('should accept commands addressed to no bot or to the bot', () => {
+    expect(isCommandForBot(command, 'SomeBot')).toBe(true);
+    expect(
+      isCommandForBot({ ...command, botUsername: 'somebot' }, 'SomeBot'),
+    ).toBe(true);
+    expect(isCommandForBot({ ...command, botUsername: 'OtherBot' })).toBe(true);
+  });
+
+  it('should reject commands addressed to another bot', () => {
+    expect(
+      isCommandForBot({ ...command, botUsername: 'OtherBot' }, 'SomeBot'),
+    ).toBe(false);
+  });
+});
+
+describe('splitCommandArgs', () => {
+  it.each([
+    ['', []],
+    ['  one   two ', ['one', 'two']],
+    [`"check oven" 'and stove'`, ['check oven', 'and stove']],
+    ['“smart quotes” «guillemets»', ['smart quotes', 'guillemets']],
+    ['say "" twice', ['say', '', 'twice']],
+    ['it\\\'s \\"quoted\\"', [`it's`, '"quoted"']],
+    ['"unterminated quote', ['unterminated quote']],
+  ])('should split %p', (text, args) => {
+    expect(splitCommandArgs(text)).toEqual(args);
+  });
+});
+
+describe('mapCommandArgs', () => {
+  it('should assign the arguments to the decorated properties', () => {
+    expect(mapCommandArgs(['10m', 'check', 'oven'], RemindArgs)).toEqual({
+      delay: '10m',
+      text: 'check oven',
+    });
+    expect(mapCommandArgs([], RemindArgs)).toEqual({});
+  });
+
+  it('should keep quoted empty arguments', () => {
+    expect(mapCommandArgs(splitCommandArgs('"" soon'), RemindArgs)).toEqual({
+      delay: '',
+      text: 'soon',
+    });
+  });
+
+  it('should return the arguments as they are without decorated properties', () => {
+    expect(mapCommandArgs(['10m'], Array)).toEqual(['10m']);
+    expect(mapCommandArgs(['10m'])).toEqual(['10m']);
+  });
+});
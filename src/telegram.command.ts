@@ -0,0 +1,103 @@
+import { Type } from '@nestjs/common';
+import { TelegramCommand, TelegramCommandArgOptions } from './interfaces';
+import { TelegramMessage } from './interfaces/telegramTypes.interface';
+import { TELEGRAM_COMMAND_ARG_METADATA } from './telegram.constants';
+
+const QUOTES = { '"': '"', '\u0027': '\u0027', '“': '”', '«': '»' };
+
+export interface TelegramCommandArgMetadata extends TelegramCommandArgOptions {
+  property: string;
+}
+
+/**
+ * Reads the command starting the message, e.g. `/remind@YourBot 10m "check oven"`,
+ * as marked by its `bot_command` entity.
+ */
+export function parseCommand(
+  message?: TelegramMessage,
+): TelegramCommand | undefined {
+  const entity = message?.entities?.find(
+    ({ type, offset }) => type === 'bot_command' && offset === 0,
+  );
+  if (!entity || !message.text) {
+    return undefined;
+  }
+  const [command, botUsername] = message.text
+    .slice(1, entity.length)
+    .split('@');
+  const argsText = message.text.slice(entity.length).trim();
+  return { command, botUsername, argsText, args: splitCommandArgs(argsText) };
+}
+
+/**
+ * Whether the command is addressed to the bot: commands addressed to other bots
+ * with `/command@OtherBot` in groups are not.
+ */
+export function isCommandForBot(
+  { botUsername }: TelegramCommand,
+  username?: string,
+): boolean {
+  return (
+    !botUsername ||
+    !username ||
+    botUsername.toLowerCase() === username.toLowerCase()
+  );
+}
+
+/**
+ * Splits the arguments of a command on spaces, except between quotes.
+ * A backslash escapes the character following it.
+ */
+export function splitCommandArgs(text: string): string[] {
+  const args: string[] = [];
+  let current: string | undefined;
+  let closingQuote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      current = (current || '') + text[++i];
+    } else if (closingQuote) {
+      if (char === closingQuote) {
+        closingQuote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (QUOTES[char] && current === undefined) {
+      closingQuote = QUOTES[char];
+      current = '';
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        args.push(current);
+      }
+      current = undefined;
+    } else {
+      current = (current || '') + char;
+    }
+  }
+  if (current !== undefined) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Assigns the arguments to the properties decorated with `@CommandArg()` in the
+ * order they are declared, or returns them as they are if there is none.
+ */
+export function mapCommandArgs(
+  args: string[],
+  metatype?: Type<unknown>,
+): string[] | Record<string, string> {
+  const properties: TelegramCommandArgMetadata[] =
+    (metatype &&
+      Reflect.getMetadata(TELEGRAM_COMMAND_ARG_METADATA, metatype)) ||
+    [];
+  if (!properties.length) {
+    return args;
+  }
+  return properties.reduce((values, { property, rest }, index) => {
+    const value =
+      rest && index < args.length ? args.slice(index).join(' ') : args[index];
+    return value !== undefined ? { ...values, [property]: value } : values;
+  }, {});
+}
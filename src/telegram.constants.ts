@@ -1 +1,21 @@
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+
 export const TELEGRAM_MODULE_OPTIONS = 'TELEGRAM_MODULE_OPTIONS';
+export const TELEGRAM_UPDATE_METADATA = 'telegram:update';
+export const TELEGRAM_HANDLER_METADATA = 'telegram:handler';
+/**
+ * Same key as route parameters, so that `createParamDecorator()` decorators work on update handlers too.
+ */
+export const TELEGRAM_PARAM_ARGS_METADATA = ROUTE_ARGS_METADATA;
+export const TELEGRAM_COMMAND_ARG_METADATA = 'telegram:commandArg';
+export const TELEGRAM_WIZARD_METADATA = 'telegram:wizard';
+export const TELEGRAM_WIZARD_STEP_METADATA = 'telegram:wizardStep';
+/**
+ * Session property holding the progress of the wizard the chat or user is in.
+ */
+export const TELEGRAM_WIZARD_SESSION_KEY = '__wizard';
+/**
+ * Name of the bot whose updates a `@TelegramUpdate()` or `@TelegramWizard()` provider handles.
+ */
+export const TELEGRAM_BOT_METADATA = 'telegram:bot';
+export const TELEGRAM_HOOK_METADATA = 'telegram:hook';
@@ -0,0 +1,136 @@
+import { of } from 'rxjs';
+import {
+  TelegramCallbackQuery,
+  TelegramMessage,
+  TelegramUser,
+  Update,
+} from './interfaces/telegramTypes.interface';
+import { TelegramContext } from './telegram.context';
+import { TelegramService } from './telegram.service';
+
+const user: TelegramUser = { id: 1, is_bot: false, first_name: 'User' };
+
+const message: TelegramMessage = {
+  message_id: 42,
+  date: 0,
+  chat: { id: 8754, type: 'group' },
+  from: { id: 2, is_bot: true, first_name: 'Bot' },
+};
+
+const callbackQuery: TelegramCallbackQuery = {
+  id: 'query',
+  from: user,
+  chat_instance: '1',
+  data: 'vote:1',
+  message,
+};
+
+describe('TelegramContext', () => {
+  const telegram = {
+    sendMessage: jest.fn(() => of(message)),
+    sendPhoto: jest.fn(() => of(message)),
+    editMessageText: jest.fn(() => of(true)),
+    answerCallbackQuery: jest.fn(() => of(true)),
+    deleteMessage: jest.fn(() => of(true)),
+    sendChatAction: jest.fn(() => of(true)),
+  };
+
+  const contextFor = (update: Update) =>
+    new TelegramContext(update, telegram as unknown as TelegramService);
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should expose what a message update is about', () => {
+    const context = contextFor({
+      update_id: 1,
+      message: { ...message, from: user },
+    });
+    expect(context.updateType).toBe('message');
+    expect(context.message.message_id).toBe(42);
+    expect(context.chat.id).toBe(8754);
+    expect(context.from).toBe(user);
+    expect(context.callbackQuery).toBeUndefined();
+  });
+
+  it('should take the sender of a callback query rather than of its message', () => {
+    const context = contextFor({ update_id: 1, callback_query: callbackQuery });
+    expect(context.updateType).toBe('callback_query');
+    expect(context.callbackQuery).toBe(callbackQuery);
+    expect(context.message).toBe(message);
+    expect(context.chat.id).toBe(8754);
+    expect(context.from).toBe(user);
+  });
+
+  it('should reply to the chat of the update', () => {
+    const context = contextFor({ update_id: 1, message });
+    context.reply('Hello', { disable_notification: true });
+    context.replyWithPhoto('photo_file_id');
+    context.sendChatAction('typing');
+    context.deleteMessage();
+    expect(telegram.sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Hello',
+      disable_notification: true,
+    });
+    expect(telegram.sendPhoto).toHaveBeenCalledWith({
+      chat_id: 8754,
+      photo: 'photo_file_id',
+    });
+    expect(telegram.sendChatAction).toHaveBeenCalledWith({
+      chat_id: 8754,
+      action: 'typing',
+    });
+    expect(telegram.deleteMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      message_id: 42,
+    });
+  });
+
+  it('should answer and edit the message of a callback query', () => {
+    const context = contextFor({ update_id: 1, callback_query: callbackQuery });
+    context.answerCallbackQuery({ text: 'Thanks' });
+    context.editMessageText('Voted');
+    expect(telegram.answerCallbackQuery).toHaveBeenCalledWith({
+      callback_query_id: 'query',
+      text: 'Thanks',
+    });
+    expect(telegram.editMessageText).toHaveBeenCalledWith({
+      chat_id: 8754,
+      message_id: 42,
+      text: 'Voted',
+    });
+  });
+
+  it('should edit inline messages by their identifier', () => {
+    const context = contextFor({
+      update_id: 1,
+      callback_query: {
+        id: 'query',
+        from: user,
+        chat_instance: '1',
+        inline_message_id: 'inline',
+      },
+    });
+    context.editMessageText('Voted');
+    expect(telegram.editMessageText).toHaveBeenCalledWith({
+      inline_message_id: 'inline',
+      text: 'Voted',
+    });
+  });
+
+  it('should fail to reply to an update without a chat', () => {
+    const context = contextFor({
+      update_id: 7,
+      inline_query: { id: '1', from: user, query: '', offset: '' },
+    });
+    expect(context.from).toBe(user);
+    expect(() => context.reply('Hello')).toThrow(
+      'Update 7 does not come from a chat',
+    );
+    expect(() => context.answerCallbackQuery()).toThrow(
+      'Update 7 is not a callback query',
+    );
+  });
+});
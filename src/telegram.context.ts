@@ -0,0 +1,214 @@
+import { Observable } from 'rxjs';
+import { TelegramCommand, TelegramSession } from './interfaces';
+import {
+  TelegramAnswerCallbackQueryParams,
+  TelegramCallbackQuery,
+  TelegramChat,
+  TelegramEditMessageTextParams,
+  TelegramInputFile,
+  TelegramMessage,
+  TelegramSendMessageParams,
+  TelegramSendPhotoParams,
+  TelegramUser,
+  Update,
+  UpdateType,
+} from './interfaces/telegramTypes.interface';
+import { parseCommand } from './telegram.command';
+import { TelegramService } from './telegram.service';
+import { TelegramWizardContext } from './telegram-wizard.context';
+import { TELEGRAM_WIZARD_SESSION_KEY } from './telegram.constants';
+import { getUpdateType } from './telegram.update-types';
+
+/**
+ * An update with shortcuts to what it is about and helpers answering it,
+ * bound to the chat and message the update comes from.
+ */
+export class TelegramContext {
+  /**
+   * State kept between the updates of the chat or user, when sessions are enabled.
+   * Changes are saved once the handler completes, set it to `undefined` to drop it.
+   */
+  session?: TelegramSession;
+
+  constructor(readonly update: Update, readonly telegram: TelegramService) {}
+
+  /**
+   * Name of the field holding the content of the update, e.g. `'message'` or `'callback_query'`
+   */
+  get updateType(): UpdateType | undefined {
+    return getUpdateType(this.update);
+  }
+
+  /**
+   * The new or edited message or channel post, or the message of the callback query
+   */
+  get message(): TelegramMessage | undefined {
+    const update = this.update;
+    return (
+      update.message ||
+      update.edited_message ||
+      update.channel_post ||
+      update.edited_channel_post ||
+      update.callback_query?.message
+    );
+  }
+
+  /**
+   * The command starting the message, if any
+   */
+  get command(): TelegramCommand | undefined {
+    return parseCommand(this.update.message);
+  }
+
+  get callbackQuery(): TelegramCallbackQuery | undefined {
+    return this.update.callback_query;
+  }
+
+  /**
+   * The chat the update comes from, if any
+   */
+  get chat(): TelegramChat | undefined {
+    const update = this.update;
+    return (
+      this.message?.chat ||
+      (update.my_chat_member || update.chat_member || update.chat_join_request)
+        ?.chat
+    );
+  }
+
+  /**
+   * The user who sent the message, pressed the button, sent the query or changed the member
+   */
+  get from(): TelegramUser | undefined {
+    const update = this.update;
+    const source =
+      update.callback_query ||
+      update.inline_query ||
+      update.chosen_inline_result ||
+      update.shipping_query ||
+      update.pre_checkout_query ||
+      update.my_chat_member ||
+      update.chat_member ||
+      update.chat_join_request;
+    return source
+      ? source.from
+      : update.poll_answer?.user || this.message?.from;
+  }
+
+  /**
+   * The wizard the chat or user is in, if any
+   */
+  get wizard(): TelegramWizardContext | undefined {
+    return this.session?.[TELEGRAM_WIZARD_SESSION_KEY]
+      ? new TelegramWizardContext(this.session)
+      : undefined;
+  }
+
+  /**
+   * Enters the wizard with the given name, whose first step runs once the current handler completes.
+   * Needs sessions to be enabled.
+   */
+  enterWizard(
+    name: string,
+    state?: Record<string, any>,
+  ): TelegramWizardContext {
+    if (!this.session) {
+      throw new Error(
+        `Update ${this.update.update_id} has no session to enter wizard ${name}`,
+      );
+    }
+    return TelegramWizardContext.enter(this.session, name, state);
+  }
+
+  /**
+   * Sends a text message to the chat of the update.
+   */
+  reply(
+    text: string,
+    extra?: Omit<TelegramSendMessageParams, 'chat_id' | 'text'>,
+  ): Observable<TelegramMessage> {
+    return this.telegram.sendMessage({ ...extra, chat_id: this.chatId, text });
+  }
+
+  /**
+   * Sends a photo to the chat of the update.
+   */
+  replyWithPhoto(
+    photo: TelegramInputFile,
+    extra?: Omit<TelegramSendPhotoParams, 'chat_id' | 'photo'>,
+  ): Observable<TelegramMessage> {
+    return this.telegram.sendPhoto({ ...extra, chat_id: this.chatId, photo });
+  }
+
+  /**
+   * Edits the text of the message of the update, e.g. the one holding the button pressed.
+   */
+  editMessageText(
+    text: string,
+    extra?: Omit<
+      TelegramEditMessageTextParams,
+      'chat_id' | 'message_id' | 'inline_message_id' | 'text'
+    >,
+  ): Observable<TelegramMessage | true> {
+    const inlineMessageId = this.callbackQuery?.inline_message_id;
+    return this.telegram.editMessageText({
+      ...extra,
+      ...(inlineMessageId
+        ? { inline_message_id: inlineMessageId }
+        : { chat_id: this.chatId, message_id: this.messageId }),
+      text,
+    });
+  }
+
+  /**
+   * Answers the callback query of the update, which stops the progress bar on the button pressed.
+   */
+  answerCallbackQuery(
+    extra?: Omit<TelegramAnswerCallbackQueryParams, 'callback_query_id'>,
+  ): Observable<true> {
+    if (!this.callbackQuery) {
+      throw new Error(
+        `Update ${this.update.update_id} is not a callback query`,
+      );
+    }
+    return this.telegram.answerCallbackQuery({
+      ...extra,
+      callback_query_id: this.callbackQuery.id,
+    });
+  }
+
+  /**
+   * Deletes the message of the update.
+   */
+  deleteMessage(): Observable<true> {
+    return this.telegram.deleteMessage({
+      chat_id: this.chatId,
+      message_id: this.messageId,
+    });
+  }
+
+  /**
+   * Shows the bot is doing something, e.g. `'typing'` or `'upload_photo'`, in the chat of the update.
+   */
+  sendChatAction(action: string): Observable<true> {
+    return this.telegram.sendChatAction({ chat_id: this.chatId, action });
+  }
+
+  private get chatId(): number | string {
+    const chat = this.chat;
+    if (!chat) {
+      throw new Error(
+        `Update ${this.update.update_id} does not come from a chat`,
+      );
+    }
+    return chat.id;
+  }
+
+  private get messageId(): number {
+    const message = this.message;
+    if (!message) {
+      throw new Error(`Update ${this.update.update_id} has no message`);
+    }
+    return message.message_id;
+  }
+}
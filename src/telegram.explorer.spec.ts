@@ -0,0 +1,517 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  INestApplication,
+  UseFilters,
+  UseGuards,
+  UseInterceptors,
+  UsePipes,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { map, of, throwError } from 'rxjs';
+import {
+  CommandArg,
+  CommandArgs,
+  Ctx,
+  OnCallbackQuery,
+  OnCommand,
+  OnText,
+  Session,
+  TelegramUpdate,
+  TelegramWizard,
+  UpdatePayload,
+  Wizard,
+  WizardStep,
+} from './decorators';
+import { TelegramHandlerReply, TelegramSession } from './interfaces';
+import {
+  TelegramArgumentsHost,
+  TelegramContextType,
+} from './telegram-arguments-host';
+import { TelegramContext } from './telegram.context';
+import { TelegramExplorer } from './telegram.explorer';
+import { TelegramWizardContext } from './telegram-wizard.context';
+import { Update } from './interfaces/telegramTypes.interface';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramModule } from './telegram.module';
+import { TelegramService } from './telegram.service';
+
+const chat = { id: 8754, type: 'private' };
+
+const textUpdate = (text: string): Update => ({
+  update_id: 1,
+  message: {
+    message_id: 1,
+    date: 0,
+    chat,
+    text,
+    entities: text.startsWith('/')
+      ? [{ type: 'bot_command', offset: 0, length: text.split(' ')[0].length }]
+      : undefined,
+  },
+});
+
+const adminOnly = {
+  canActivate: (context: ExecutionContext) =>
+    context.getType<TelegramContextType>() === 'telegram' &&
+    TelegramArgumentsHost.create(context).getContext().from?.id === 1,
+};
+
+const shouting = {
+  intercept: (context: ExecutionContext, next: CallHandler) =>
+    next.handle().pipe(map((reply: string) => reply.toUpperCase())),
+};
+
+const apologizing = {
+  catch: () => 'Sorry, something went wrong',
+};
+
+const textOnly = {
+  transform: (update: Update) => update.message.text,
+};
+
+class RemindArgs {
+  @CommandArg()
+  delay: string;
+
+  @CommandArg({ rest: true })
+  text: string;
+}
+
+const upperCaseDelay = {
+  transform: (args: RemindArgs) => ({
+    ...args,
+    delay: args.delay.toUpperCase(),
+  }),
+};
+
+// tslint:disable-next-line:max-classes-per-file
+@TelegramUpdate()
+@TelegramWizard('onboarding')
+@Injectable()
+class EchoUpdate {
+  readonly handled: Update[] = [];
+
+  @OnCommand('start')
+  start(): string {
+    return 'Welcome!';
+  }
+
+  @OnCommand('fail')
+  fail() {
+    throw new Error('Handler failure');
+  }
+
+  @OnCommand('photo')
+  photo(@Ctx() context: TelegramContext, @UpdatePayload() update: Update) {
+    this.handled.push(update);
+    return context.reply('Sending a photo');
+  }
+
+  @OnCommand('invalid')
+  invalid() {
+    throw new BadRequestException('Invalid reminder');
+  }
+
+  @OnCommand('admin')
+  @UseGuards(adminOnly)
+  admin() {
+    return 'Hello admin';
+  }
+
+  @OnCommand('shout')
+  @UseInterceptors(shouting)
+  shout(@UpdatePayload(textOnly) text: string) {
+    return `you said ${text}`;
+  }
+
+  @OnCommand('oops')
+  @UseFilters(apologizing)
+  oops() {
+    throw new Error('Oops');
+  }
+
+  @OnCommand('remind')
+  remind(@CommandArgs() [delay, text]: string[]) {
+    return `Reminding you to ${text} in ${delay}`;
+  }
+
+  @OnCommand('later')
+  @UsePipes(upperCaseDelay)
+  later(@CommandArgs() { delay, text }: RemindArgs) {
+    return `Reminding you to ${text} in ${delay}`;
+  }
+
+  @OnCommand('count')
+  count(@Session() session: TelegramSession) {
+    session.count = (session.count || 0) + 1;
+    return `Count: ${session.count}`;
+  }
+
+  @OnCommand('onboard')
+  onboard(@Ctx() context: TelegramContext) {
+    context.enterWizard('onboarding');
+    return 'Welcome aboard';
+  }
+
+  @WizardStep(1)
+  askName(@Wizard() wizard: TelegramWizardContext) {
+    wizard.next();
+    return 'What is your name?';
+  }
+
+  @WizardStep(2)
+  saveName(
+    @Ctx() context: TelegramContext,
+    @Wizard() wizard: TelegramWizardContext,
+  ) {
+    const name = context.message?.text || '';
+    if (name.length < 2) {
+      return 'Please send a longer name';
+    }
+    wizard.state.name = name;
+    wizard.next();
+    return `Is ${name} right?`;
+  }
+
+  @WizardStep(3)
+  confirm(
+    @Ctx() context: TelegramContext,
+    @Wizard() wizard: TelegramWizardContext,
+  ) {
+    if (context.message?.text !== 'yes') {
+      wizard.back();
+      return 'What is your name then?';
+    }
+    wizard.next();
+    return `Nice to meet you ${wizard.state.name}`;
+  }
+
+  @OnText(/.*/)
+  async echo(update: Update): Promise<TelegramHandlerReply> {
+    return { text: update.message.text, disable_notification: true };
+  }
+
+  @OnCallbackQuery('vote:')
+  vote(update: Update) {
+    this.handled.push(update);
+  }
+}
+
+describe('TelegramExplorer', () => {
+  let app: INestApplication;
+  let updates: TelegramUpdatesService;
+  let sendMessage: jest.SpyInstance;
+  let getMe: jest.SpyInstance;
+
+  const receive = async (update: Update) => {
+    updates.push(update);
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  /**
+   * Pushes the updates back to back, like the updates of a single `getUpdates` call.
+   */
+  const receiveAll = async (...received: Update[]) => {
+    received.forEach((update) => updates.push(update));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        TelegramModule.forRoot({
+          botKey: 'someBotKey',
+          session: { key: 'chat' },
+          wizard: { cancelReply: 'Cancelled', timeout: 60 },
+        }),
+      ],
+      providers: [EchoUpdate],
+    }).compile();
+    app = module.createNestApplication();
+    getMe = jest
+      .spyOn(app.get(TelegramService), 'getMe')
+      .mockReturnValue(
+        of({ id: 2, is_bot: true, first_name: 'Bot', username: 'SomeBot' }),
+      );
+    sendMessage = jest
+      .spyOn(app.get(TelegramService), 'sendMessage')
+      .mockImplementation(({ text }) =>
+        of({ message_id: 2, date: 0, chat, text }),
+      );
+    await app.init();
+    updates = app.get(TelegramUpdatesService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should call the first matching handler only', async () => {
+    await receive(textUpdate('/start'));
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Welcome!',
+    });
+  });
+
+  it('should send the message parameters returned asynchronously', async () => {
+    await receive(textUpdate('hello'));
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'hello',
+      disable_notification: true,
+    });
+  });
+
+  it('should not reply when the handler returns nothing', async () => {
+    const update: Update = {
+      update_id: 2,
+      callback_query: {
+        id: '1',
+        from: undefined,
+        chat_instance: '1',
+        data: 'vote:1',
+        message: { message_id: 1, date: 0, chat },
+      },
+    };
+    await receive(update);
+    expect(app.get(EchoUpdate).handled).toEqual([update]);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should inject decorated parameters and not resend messages already sent', async () => {
+    await receive(textUpdate('/photo'));
+    expect(app.get(EchoUpdate).handled).toEqual([textUpdate('/photo')]);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Sending a photo',
+    });
+  });
+
+  it('should keep handling updates after a handler failed', async () => {
+    await receive(textUpdate('/fail'));
+    await receive(textUpdate('/start'));
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep handling updates after the session key failed', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        TelegramModule.forRoot({
+          botKey: 'someBotKey',
+          session: { key: (context) => `${context.chat.id}` },
+        }),
+      ],
+      providers: [EchoUpdate],
+    }).compile();
+    const other = module.createNestApplication();
+    jest
+      .spyOn(other.get(TelegramService), 'getMe')
+      .mockReturnValue(
+        of({ id: 2, is_bot: true, first_name: 'Bot', username: 'SomeBot' }),
+      );
+    const otherSendMessage = jest
+      .spyOn(other.get(TelegramService), 'sendMessage')
+      .mockImplementation(({ text }) =>
+        of({ message_id: 2, date: 0, chat, text }),
+      );
+    await other.init();
+    const logError = jest.spyOn(other.get(TelegramExplorer)['logger'], 'error');
+    other.get(TelegramUpdatesService).push({
+      update_id: 2,
+      inline_query: { id: '1', from: undefined, query: 'cats', offset: '' },
+    });
+    other.get(TelegramUpdatesService).push(textUpdate('/start'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(logError).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to get the session key of update 2'),
+      expect.any(String),
+    );
+    expect(otherSendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Welcome!',
+    });
+    await other.close();
+  });
+
+  it('should log the HTTP exceptions handlers fail with', async () => {
+    const explorer = app.get(TelegramExplorer);
+    const error = jest
+      .spyOn(explorer['logger'], 'error')
+      .mockImplementation(() => undefined);
+    const debug = jest
+      .spyOn(explorer['logger'], 'debug')
+      .mockImplementation(() => undefined);
+    await receive(textUpdate('/invalid'));
+    expect(error).toHaveBeenCalledWith(
+      'Failed to handle update 1: Invalid reminder',
+      expect.any(String),
+    );
+    await receive(textUpdate('/admin'));
+    expect(debug).toHaveBeenCalledWith(
+      'Failed to handle update 1: Forbidden resource',
+    );
+  });
+
+  it('should let the guards decide whether the handler runs', async () => {
+    await receive(textUpdate('/admin'));
+    expect(sendMessage).not.toHaveBeenCalled();
+    const update = textUpdate('/admin');
+    update.message.from = { id: 1, is_bot: false, first_name: 'Admin' };
+    await receive(update);
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Hello admin',
+    });
+  });
+
+  it('should apply the pipes and interceptors of the handler', async () => {
+    await receive(textUpdate('/shout hello'));
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'YOU SAID /SHOUT HELLO',
+    });
+  });
+
+  it('should reply with what an exception filter returns', async () => {
+    await receive(textUpdate('/oops'));
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Sorry, something went wrong',
+    });
+  });
+
+  it('should inject the arguments of the command', async () => {
+    await receive(textUpdate('/remind@SomeBot 10m "check the oven"'));
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Reminding you to check the oven in 10m',
+    });
+  });
+
+  it('should map the arguments of the command before the pipes of the handler', async () => {
+    await receive(textUpdate('/later 10m "check the oven"'));
+    expect(sendMessage).toHaveBeenCalledWith({
+      chat_id: 8754,
+      text: 'Reminding you to check the oven in 10M',
+    });
+  });
+
+  it('should ask for the bot username again only after a failure', async () => {
+    getMe.mockReturnValueOnce(throwError(() => new Error('Bad Gateway')));
+    await receive(textUpdate('/start@OtherBot'));
+    await receive(textUpdate('/start@OtherBot'));
+    await receive(textUpdate('/start@OtherBot'));
+    expect(getMe).toHaveBeenCalledTimes(2);
+    expect(sendMessage).toHaveBeenNthCalledWith(1, {
+      chat_id: 8754,
+      text: 'Welcome!',
+    });
+    expect(sendMessage).toHaveBeenLastCalledWith({
+      chat_id: 8754,
+      text: '/start@OtherBot',
+      disable_notification: true,
+    });
+  });
+
+  it('should keep the session between the updates of a chat', async () => {
+    await receive(textUpdate('/count'));
+    await receive(textUpdate('/count'));
+    expect(sendMessage).toHaveBeenLastCalledWith({
+      chat_id: 8754,
+      text: 'Count: 2',
+    });
+  });
+
+  it('should handle the updates of a chat one after the other', async () => {
+    await receiveAll(
+      textUpdate('/count'),
+      textUpdate('/count'),
+      textUpdate('/count'),
+    );
+    expect(sendMessage.mock.calls.map(([{ text }]) => text)).toEqual([
+      'Count: 1',
+      'Count: 2',
+      'Count: 3',
+    ]);
+  });
+
+  describe('wizards', () => {
+    const replies = () => sendMessage.mock.calls.map(([{ text }]) => text);
+
+    it('should run each step once for updates received together', async () => {
+      await receiveAll(
+        textUpdate('/onboard'),
+        textUpdate('Jane'),
+        textUpdate('yes'),
+      );
+      expect(replies()).toEqual([
+        'Welcome aboard',
+        'What is your name?',
+        'Is Jane right?',
+        'Nice to meet you Jane',
+      ]);
+    });
+
+    it('should run the first step once entered and the next ones with the following updates', async () => {
+      await receive(textUpdate('/onboard'));
+      await receive(textUpdate('J'));
+      await receive(textUpdate('Jane'));
+      await receive(textUpdate('no'));
+      await receive(textUpdate('Joan'));
+      await receive(textUpdate('yes'));
+      await receive(textUpdate('hello'));
+      expect(replies()).toEqual([
+        'Welcome aboard',
+        'What is your name?',
+        'Please send a longer name',
+        'Is Jane right?',
+        'What is your name then?',
+        'Is Joan right?',
+        'Nice to meet you Joan',
+        'hello',
+      ]);
+    });
+
+    it('should leave the wizard with a cancel command', async () => {
+      await receive(textUpdate('/onboard'));
+      await receive(textUpdate('/cancel'));
+      await receive(textUpdate('hello'));
+      expect(replies()).toEqual([
+        'Welcome aboard',
+        'What is your name?',
+        'Cancelled',
+        'hello',
+      ]);
+    });
+
+    it('should leave the wizard once timed out', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(0);
+      await receive(textUpdate('/onboard'));
+      now.mockReturnValue(60001);
+      await receive(textUpdate('Jane'));
+      now.mockRestore();
+      expect(replies()).toEqual([
+        'Welcome aboard',
+        'What is your name?',
+        'Jane',
+      ]);
+    });
+
+    it('should require sessions', async () => {
+      const module = await Test.createTestingModule({
+        imports: [TelegramModule.forRoot({ botKey: 'someBotKey' })],
+        providers: [EchoUpdate],
+      }).compile();
+      await expect(module.createNestApplication().init()).rejects.toThrow(
+        'Telegram wizards keep their progress in sessions',
+      );
+    });
+  });
+});
@@ -0,0 +1,473 @@
+import {
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { ExternalContextCreator } from '@nestjs/core/helpers/external-context-creator';
+import { ParamsMetadata } from '@nestjs/core/helpers/interfaces';
+import { InstanceWrapper } from '@nestjs/core/injector/instance-wrapper';
+import {
+  catchError,
+  concat,
+  concatMap,
+  defer,
+  EMPTY,
+  from,
+  lastValueFrom,
+  map,
+  mergeMap,
+  Observable,
+  of,
+  ReplaySubject,
+  share,
+  Subscription,
+} from 'rxjs';
+import {
+  TelegramHandlerMetadata,
+  TelegramHandlerReply,
+  TelegramModuleOptions,
+  TelegramWizardOptions,
+  TelegramWizardProgress,
+} from './interfaces';
+import { Update } from './interfaces/telegramTypes.interface';
+import {
+  TELEGRAM_BOT_METADATA,
+  TELEGRAM_HANDLER_METADATA,
+  TELEGRAM_HOOK_METADATA,
+  TELEGRAM_MODULE_OPTIONS,
+  TELEGRAM_PARAM_ARGS_METADATA,
+  TELEGRAM_UPDATE_METADATA,
+  TELEGRAM_WIZARD_METADATA,
+  TELEGRAM_WIZARD_SESSION_KEY,
+  TELEGRAM_WIZARD_STEP_METADATA,
+} from './telegram.constants';
+import { isCommandForBot, parseCommand } from './telegram.command';
+import { TelegramContext } from './telegram.context';
+import { matchesHandler } from './telegram.handlers';
+import { TelegramContextType } from './telegram-arguments-host';
+import { TelegramParamsFactory } from './telegram-params.factory';
+import { TelegramSessionService } from './telegram-session.service';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramService } from './telegram.service';
+
+type TelegramCallback = (
+  update: Update,
+  context: TelegramContext,
+) => Promise<unknown>;
+
+interface TelegramHandler {
+  metadata: TelegramHandlerMetadata;
+  callback: TelegramCallback;
+}
+
+/**
+ * Registers the `@TelegramHook()` providers with the `TelegramService`, and finds the
+ * methods of `@TelegramUpdate()` providers decorated as update handlers and the
+ * steps of `@TelegramWizard()` providers. Each update received is passed
+ * to the current step of the wizard its chat or user is in, or else to the first
+ * handler matching it, through the guards, interceptors, pipes and exception
+ * filters applying to it. Updates sharing a session are handled one at a time.
+ */
+@Injectable()
+export class TelegramExplorer implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TelegramExplorer.name);
+  private readonly paramsFactory = new TelegramParamsFactory();
+  private readonly wizardOptions: TelegramWizardOptions;
+  private readonly botName?: string;
+  private handlers: TelegramHandler[] = [];
+  private wizards = new Map<string, TelegramCallback[]>();
+  private subscription?: Subscription;
+  /**
+   * The last update being handled for each session key
+   */
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @Inject(TELEGRAM_MODULE_OPTIONS)
+    options: TelegramModuleOptions,
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly externalContextCreator: ExternalContextCreator,
+    private readonly telegram: TelegramService,
+    private readonly updates: TelegramUpdatesService,
+    private readonly sessions: TelegramSessionService,
+  ) {
+    this.wizardOptions = { cancelCommands: ['cancel'], ...options.wizard };
+    this.botName = options.name;
+  }
+
+  onModuleInit() {
+    this.getInstances(TELEGRAM_HOOK_METADATA).forEach((hook) =>
+      this.telegram.addHook(hook),
+    );
+    this.handlers = this.exploreHandlers();
+    this.wizards = this.exploreWizards();
+    if (this.wizards.size && !this.sessions.isEnabled) {
+      throw new Error(
+        'Telegram wizards keep their progress in sessions, set `session` in the TelegramModule options',
+      );
+    }
+    if (this.handlers.length || this.wizards.size) {
+      const botUsername = this.getBotUsername();
+      this.subscription = this.updates.updates
+        .pipe(
+          mergeMap((update) => {
+            const context = new TelegramContext(update, this.telegram);
+            return this.inOrder(this.getSessionKey(context), () =>
+              botUsername.pipe(
+                mergeMap((username) => this.handle(context, username)),
+              ),
+            );
+          }),
+        )
+        .subscribe({
+          error: (error) =>
+            this.logger.error(
+              `Stopped handling updates: ${error?.message}`,
+              error?.stack,
+            ),
+        });
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * The username of the bot, fetched once unless it is already known, to recognize the commands addressed to it.
+   * Until `getMe` succeeds, every update tries again.
+   */
+  private getBotUsername(): Observable<string | undefined> {
+    return defer(() =>
+      this.telegram.botInfo ? of(this.telegram.botInfo) : this.telegram.getMe(),
+    ).pipe(
+      map((bot) => bot.username),
+      share({
+        connector: () => new ReplaySubject<string>(1),
+        resetOnError: true,
+        resetOnComplete: false,
+        resetOnRefCountZero: false,
+      }),
+      catchError((error) => {
+        this.logger.warn(
+          `Could not get the bot username, commands addressed to other bots will be handled: ${error?.message}`,
+        );
+        return of(undefined);
+      }),
+    );
+  }
+
+  private exploreHandlers(): TelegramHandler[] {
+    return this.getInstances(TELEGRAM_UPDATE_METADATA).reduce<
+      TelegramHandler[]
+    >(
+      (handlers, instance) =>
+        handlers.concat(
+          this.scan<TelegramHandlerMetadata>(
+            instance,
+            TELEGRAM_HANDLER_METADATA,
+          ).map(({ name, metadata }) => ({
+            metadata,
+            callback: this.createCallback(instance, name),
+          })),
+        ),
+      [],
+    );
+  }
+
+  private exploreWizards(): Map<string, TelegramCallback[]> {
+    const wizards = new Map<string, TelegramCallback[]>();
+    this.getInstances(TELEGRAM_WIZARD_METADATA).forEach((instance) => {
+      const steps = this.scan<number>(instance, TELEGRAM_WIZARD_STEP_METADATA)
+        .sort((a, b) => a.metadata - b.metadata)
+        .map(({ name }) => this.createCallback(instance, name));
+      wizards.set(
+        this.reflector.get(TELEGRAM_WIZARD_METADATA, instance.constructor),
+        steps,
+      );
+    });
+    return wizards;
+  }
+
+  /**
+   * Instances of the providers whose class has the metadata, among those handling the updates of this bot.
+   */
+  private getInstances(metadataKey: string): object[] {
+    return this.discovery
+      .getProviders()
+      .filter(
+        ({ instance, metatype }: InstanceWrapper) =>
+          !!instance &&
+          !!metatype &&
+          this.reflector.get(metadataKey, metatype) !== undefined &&
+          this.reflector.get(TELEGRAM_BOT_METADATA, metatype) === this.botName,
+      )
+      .map(({ instance }) => instance);
+  }
+
+  /**
+   * Methods of the instance having the metadata, with its value.
+   */
+  private scan<T>(
+    instance: object,
+    metadataKey: string,
+  ): { name: string; metadata: T }[] {
+    const prototype = Object.getPrototypeOf(instance);
+    return this.metadataScanner.scanFromPrototype(
+      instance,
+      prototype,
+      (name) => {
+        const metadata = this.reflector.get<T>(metadataKey, prototype[name]);
+        return metadata === undefined ? undefined : { name, metadata };
+      },
+    );
+  }
+
+  /**
+   * Calls the method with the update and its context, or with the values
+   * its parameters ask for with decorators like `@Ctx()`.
+   */
+  private createCallback(instance: object, name: string): TelegramCallback {
+    return this.externalContextCreator.create<
+      ParamsMetadata,
+      TelegramContextType
+    >(
+      instance,
+      instance[name],
+      name,
+      TELEGRAM_PARAM_ARGS_METADATA,
+      this.paramsFactory,
+      undefined,
+      undefined,
+      undefined,
+      'telegram',
+    );
+  }
+
+  /**
+   * Handles the updates sharing a session key one after the other, so that each one
+   * sees the session and wizard progress saved by the previous one. Updates without
+   * a key, and those of other keys, are handled at the same time.
+   */
+  /**
+   * The session key of the update, or undefined when the configured `key` function fails on it,
+   * in which case the update is handled without waiting for the others.
+   */
+  private getSessionKey(context: TelegramContext): string | undefined {
+    try {
+      return this.sessions.getSessionKey(context);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get the session key of update ${context.update.update_id}: ${error?.message}`,
+        error?.stack,
+      );
+      return undefined;
+    }
+  }
+
+  private inOrder(
+    key: string | undefined,
+    handle: () => Observable<unknown>,
+  ): Observable<unknown> {
+    if (key === undefined) {
+      return handle();
+    }
+    const handled = (this.queues.get(key) || Promise.resolve()).then(() =>
+      lastValueFrom(handle(), { defaultValue: undefined }),
+    );
+    this.queues.set(key, handled);
+    return from(
+      handled.then(() => {
+        if (this.queues.get(key) === handled) {
+          this.queues.delete(key);
+        }
+      }),
+    );
+  }
+
+  private handle(
+    context: TelegramContext,
+    botUsername?: string,
+  ): Observable<unknown> {
+    const update = context.update;
+    return defer(() => this.route(context, botUsername)).pipe(
+      mergeMap((callback) => (callback ? this.run(callback, context) : EMPTY)),
+      catchError((error) => {
+        this.logger.error(
+          `Failed to handle update ${update.update_id}: ${error?.message}`,
+          error?.stack,
+        );
+        return EMPTY;
+      }),
+    );
+  }
+
+  /**
+   * Finds what handles the update: the current step of the wizard its chat or user is in,
+   * or else the first matching handler. Sessions are only loaded for updates being handled,
+   * unless there are wizards.
+   */
+  private async route(
+    context: TelegramContext,
+    botUsername?: string,
+  ): Promise<TelegramCallback | undefined> {
+    let leftWizard = false;
+    if (this.wizards.size) {
+      await this.sessions.load(context);
+      const progress = this.getProgress(context);
+      if (progress && this.isWizardOver(progress)) {
+        context.wizard.leave();
+        leftWizard = true;
+      } else if (progress) {
+        return this.routeWizard(context, progress, botUsername);
+      }
+    }
+    const handler = this.handlers.find(({ metadata }) =>
+      matchesHandler(metadata, context.update, botUsername),
+    );
+    if (!handler) {
+      if (leftWizard) {
+        await this.sessions.save(context);
+      }
+      return undefined;
+    }
+    if (!this.wizards.size) {
+      await this.sessions.load(context);
+    }
+    return handler.callback;
+  }
+
+  private routeWizard(
+    context: TelegramContext,
+    { name, cursor }: TelegramWizardProgress,
+    botUsername?: string,
+  ): TelegramCallback {
+    const command = parseCommand(context.update.message);
+    const isCancel =
+      command &&
+      isCommandForBot(command, botUsername) &&
+      this.wizardOptions.cancelCommands.indexOf(command.command) !== -1;
+    if (!isCancel) {
+      return this.wizards.get(name)[cursor];
+    }
+    return async () => {
+      context.wizard.leave();
+      return this.wizardOptions.cancelReply;
+    };
+  }
+
+  /**
+   * Whether the wizard timed out, or can no longer go on because it changed since it was entered.
+   */
+  private isWizardOver({ name, cursor, updatedAt }: TelegramWizardProgress) {
+    const timeout = this.wizardOptions.timeout;
+    return (
+      !this.wizards.get(name)?.[cursor] ||
+      (!!timeout && Date.now() - updatedAt > timeout * 1000)
+    );
+  }
+
+  private run(
+    callback: TelegramCallback,
+    context: TelegramContext,
+  ): Observable<unknown> {
+    return defer(() => callback(context.update, context)).pipe(
+      catchError((error) => {
+        this.reportHandlerError(context, error);
+        return EMPTY;
+      }),
+      concatMap((reply) =>
+        concat(this.reply(context, reply), this.continueWizard(context)),
+      ),
+    );
+  }
+
+  /**
+   * Logs what a handler failed with, unless Nest's default exception filter did already:
+   * it only logs errors that are not `HttpException`s. Updates turned down by a guard are
+   * only logged at debug level.
+   */
+  private reportHandlerError(context: TelegramContext, error: unknown) {
+    if (error instanceof Error && !(error instanceof HttpException)) {
+      return;
+    }
+    const message = `Failed to handle update ${context.update.update_id}: ${
+      error instanceof Error ? error.message : error
+    }`;
+    if (error instanceof ForbiddenException) {
+      this.logger.debug(message);
+    } else {
+      this.logger.error(message, (error as Error)?.stack);
+    }
+  }
+
+  /**
+   * Runs the first step of a wizard that was just entered, completes the wizard
+   * moved past its last step, then saves the session.
+   */
+  private continueWizard(context: TelegramContext): Observable<unknown> {
+    const progress = this.getProgress(context);
+    const steps = progress && this.wizards.get(progress.name);
+    if (progress && !steps) {
+      this.logger.error(`There is no Telegram wizard named ${progress.name}`);
+      context.wizard.leave();
+    } else if (progress && !steps[progress.cursor]) {
+      context.wizard.leave();
+    } else if (progress) {
+      progress.updatedAt = Date.now();
+      if (progress.entering) {
+        delete progress.entering;
+        return this.run(steps[progress.cursor], context);
+      }
+    }
+    return defer(() => this.sessions.save(context));
+  }
+
+  private getProgress(
+    context: TelegramContext,
+  ): TelegramWizardProgress | undefined {
+    return context.session?.[TELEGRAM_WIZARD_SESSION_KEY];
+  }
+
+  /**
+   * Sends what the handler returned to the chat the update comes from. Results of
+   * calls like `context.reply()` are messages already sent, so they are ignored.
+   */
+  private reply(
+    context: TelegramContext,
+    result: unknown,
+  ): Observable<unknown> {
+    if (!context.chat || !isReply(result)) {
+      return EMPTY;
+    }
+    const reply =
+      typeof result === 'string'
+        ? context.reply(result)
+        : context.reply(result.text, result);
+    return reply.pipe(
+      catchError((error) => {
+        this.logger.error(
+          `Failed to reply to update ${context.update.update_id}: ${error?.message}`,
+          error?.stack,
+        );
+        return EMPTY;
+      }),
+    );
+  }
+}
+
+function isReply(result: unknown): result is TelegramHandlerReply {
+  return (
+    typeof result === 'string' ||
+    (!!result &&
+      typeof result['text'] === 'string' &&
+      result['message_id'] === undefined)
+  );
+}
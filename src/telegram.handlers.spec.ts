@@ -0,0 +1,121 @@
+import { TelegramHandlerMetadata } from './interfaces';
+import { Update } from './interfaces/telegramTypes.interface';
+import { matchesHandler } from './telegram.handlers';
+
+const chat = { id: 8754, type: 'private' };
+
+const textUpdate = (text: string): Update => ({
+  update_id: 1,
+  message: {
+    message_id: 1,
+    date: 0,
+    chat,
+    text,
+    entities: text.startsWith('/')
+      ? [{ type: 'bot_command', offset: 0, length: text.split(' ')[0].length }]
+      : undefined,
+  },
+});
+
+const callbackUpdate = (data?: string): Update => ({
+  update_id: 1,
+  callback_query: { id: '1', from: undefined, chat_instance: '1', data },
+});
+
+describe('matchesHandler', () => {
+  const matches = (metadata: TelegramHandlerMetadata, update: Update) =>
+    matchesHandler(metadata, update);
+
+  it('should match commands with or without a bot name and arguments', () => {
+    const metadata: TelegramHandlerMetadata = {
+      type: 'command',
+      filter: 'start',
+    };
+    expect(matches(metadata, textUpdate('/start'))).toBe(true);
+    expect(matches(metadata, textUpdate('/start@SomeBot'))).toBe(true);
+    expect(matches(metadata, textUpdate('/start deep-link'))).toBe(true);
+    expect(matches(metadata, textUpdate('/started'))).toBe(false);
+    expect(matches(metadata, textUpdate('start'))).toBe(false);
+  });
+
+  it('should ignore commands addressed to another bot', () => {
+    const metadata: TelegramHandlerMetadata = {
+      type: 'command',
+      filter: 'start',
+    };
+    expect(
+      matchesHandler(metadata, textUpdate('/start@somebot'), 'SomeBot'),
+    ).toBe(true);
+    expect(
+      matchesHandler(metadata, textUpdate('/start@OtherBot'), 'SomeBot'),
+    ).toBe(false);
+  });
+
+  it('should match any of several commands', () => {
+    const metadata: TelegramHandlerMetadata = {
+      type: 'command',
+      filter: ['help', 'about'],
+    };
+    expect(matches(metadata, textUpdate('/about'))).toBe(true);
+    expect(matches(metadata, textUpdate('/start'))).toBe(false);
+  });
+
+  it('should match texts exactly or with a pattern', () => {
+    expect(
+      matches({ type: 'text', filter: 'hello' }, textUpdate('hello')),
+    ).toBe(true);
+    expect(
+      matches({ type: 'text', filter: 'hello' }, textUpdate('hello there')),
+    ).toBe(false);
+    expect(
+      matches({ type: 'text', filter: /^hello/ }, textUpdate('hello there')),
+    ).toBe(true);
+  });
+
+  it('should match callback data by prefix or pattern', () => {
+    expect(matches({ type: 'callback_query' }, callbackUpdate('vote:1'))).toBe(
+      true,
+    );
+    expect(
+      matches(
+        { type: 'callback_query', filter: 'vote:' },
+        callbackUpdate('vote:1'),
+      ),
+    ).toBe(true);
+    expect(
+      matches(
+        { type: 'callback_query', filter: 'vote:' },
+        callbackUpdate('cancel'),
+      ),
+    ).toBe(false);
+    expect(
+      matches(
+        { type: 'callback_query', filter: /^vote:\d+$/ },
+        callbackUpdate('vote:12'),
+      ),
+    ).toBe(true);
+    expect(matches({ type: 'callback_query' }, textUpdate('vote:1'))).toBe(
+      false,
+    );
+  });
+
+  it('should match messages having the given field', () => {
+    const photo: Update = {
+      update_id: 1,
+      message: { message_id: 1, date: 0, chat, photo: [] },
+    };
+    expect(matches({ type: 'message' }, photo)).toBe(true);
+    expect(matches({ type: 'message', filter: 'photo' }, photo)).toBe(true);
+    expect(matches({ type: 'message', filter: 'document' }, photo)).toBe(false);
+  });
+
+  it('should match updates having the given field', () => {
+    expect(matches({ type: 'update' }, callbackUpdate())).toBe(true);
+    expect(
+      matches({ type: 'update', filter: 'callback_query' }, callbackUpdate()),
+    ).toBe(true);
+    expect(
+      matches({ type: 'update', filter: 'message' }, callbackUpdate()),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { TelegramHandlerMetadata } from './interfaces';
+import {
+  TelegramMessageKind,
+  Update,
+  UpdateType,
+} from './interfaces/telegramTypes.interface';
+import { isCommandForBot, parseCommand } from './telegram.command';
+import { isMessageOfKind } from './telegram.message-kinds';
+import { isUpdateOfType } from './telegram.update-types';
+
+/**
+ * Whether the update is one the handler described by the metadata is interested in.
+ * Commands addressed to another bot than the one with the given username never match.
+ */
+export function matchesHandler(
+  { type, filter }: TelegramHandlerMetadata,
+  update: Update,
+  botUsername?: string,
+): boolean {
+  switch (type) {
+    case 'update':
+      return !filter || isUpdateOfType(update, filter as UpdateType);
+    case 'command':
+      return matchesCommand(update, filter as string | string[], botUsername);
+    case 'text':
+      return (
+        update.message?.text !== undefined &&
+        matchesText(update.message.text, filter as string | RegExp)
+      );
+    case 'message':
+      return (
+        !!update.message &&
+        (!filter ||
+          isMessageOfKind(update.message, filter as TelegramMessageKind))
+      );
+    case 'callback_query':
+      return (
+        !!update.callback_query &&
+        (!filter ||
+          (typeof filter === 'string'
+            ? (update.callback_query.data || '').startsWith(filter)
+            : matchesText(update.callback_query.data, filter as RegExp)))
+      );
+    case 'inline_query':
+      return (
+        !!update.inline_query &&
+        (!filter ||
+          matchesText(update.inline_query.query, filter as string | RegExp))
+      );
+    default:
+      return false;
+  }
+}
+
+function matchesCommand(
+  update: Update,
+  commands: string | string[],
+  botUsername?: string,
+) {
+  const command = parseCommand(update.message);
+  return (
+    !!command &&
+    isCommandForBot(command, botUsername) &&
+    (Array.isArray(commands) ? commands : [commands]).indexOf(
+      command.command,
+    ) !== -1
+  );
+}
+
+function matchesText(text: string | undefined, filter: string | RegExp) {
+  return typeof filter === 'string'
+    ? text === filter
+    : text !== undefined && filter.test(text);
+}
@@ -0,0 +1,75 @@
+import {
+  catchError,
+  concatMap,
+  defer,
+  from,
+  map,
+  Observable,
+  of,
+  switchMap,
+  throwError,
+} from 'rxjs';
+import {
+  TelegramCall,
+  TelegramCallHook,
+  TelegramCallOutcome,
+} from './interfaces';
+
+/**
+ * Sends a Bot API call through the hooks: their `beforeCall` may change its parameters
+ * or skip it, then their `afterCall` are told how it ended.
+ */
+export function runCallHooks<T>(
+  hooks: TelegramCallHook[],
+  method: string,
+  params: any,
+  send: (params: any) => Observable<T>,
+): Observable<T> {
+  if (!hooks.length) {
+    return send(params);
+  }
+  return defer(async () => {
+    const call: TelegramCall = { method, params };
+    return { call, skipped: await runBeforeCall(hooks, call) };
+  }).pipe(
+    switchMap(({ call, skipped }) => {
+      const startedAt = Date.now();
+      const after = (outcome: Omit<TelegramCallOutcome, 'duration'>) =>
+        from(
+          runAfterCall(hooks, call, {
+            ...outcome,
+            duration: Date.now() - startedAt,
+          }),
+        );
+      return (skipped ? of(skipped.result as T) : send(call.params)).pipe(
+        catchError((error) =>
+          after({ error }).pipe(switchMap(() => throwError(() => error))),
+        ),
+        concatMap((result) => after({ result }).pipe(map(() => result))),
+      );
+    }),
+  );
+}
+
+async function runBeforeCall(
+  hooks: TelegramCallHook[],
+  call: TelegramCall,
+): Promise<{ result: unknown } | undefined> {
+  for (const hook of hooks) {
+    const result = await hook.beforeCall?.(call);
+    if (result !== undefined) {
+      return { result };
+    }
+  }
+  return undefined;
+}
+
+async function runAfterCall(
+  hooks: TelegramCallHook[],
+  call: TelegramCall,
+  outcome: TelegramCallOutcome,
+) {
+  for (const hook of hooks) {
+    await hook.afterCall?.(call, outcome);
+  }
+}
@@ -0,0 +1,71 @@
+import { TelegramMessage } from './interfaces/telegramTypes.interface';
+import {
+  getMessageKind,
+  isDocumentMessage,
+  isMessageOfKind,
+  isPhotoMessage,
+  isServiceMessage,
+} from './telegram.message-kinds';
+
+const chat = { id: 8754, type: 'group' };
+
+const message = (content: Partial<TelegramMessage>): TelegramMessage => ({
+  message_id: 1,
+  date: 0,
+  chat,
+  ...content,
+});
+
+const document = { file_id: 'doc' };
+const location = { longitude: 2.35, latitude: 48.85 };
+
+describe('message kinds', () => {
+  it('should return what the message is about', () => {
+    expect(getMessageKind(message({ text: 'hi' }))).toBe('text');
+    expect(getMessageKind(message({ photo: [], caption: 'Sunset' }))).toBe(
+      'photo',
+    );
+    expect(getMessageKind(message({ new_chat_members: [] }))).toBe(
+      'new_chat_members',
+    );
+    expect(getMessageKind(message({ group_chat_created: true }))).toBe(
+      'group_chat_created',
+    );
+    expect(getMessageKind(message({}))).toBeUndefined();
+  });
+
+  it('should prefer the most specific kind', () => {
+    expect(
+      getMessageKind(
+        message({ animation: { file_id: 'gif' } as any, document }),
+      ),
+    ).toBe('animation');
+    expect(
+      getMessageKind(
+        message({
+          venue: { location, title: 'Louvre', address: 'Paris' },
+          location,
+        }),
+      ),
+    ).toBe('venue');
+  });
+
+  it('should narrow messages having the field of the kind', () => {
+    const received = message({ document });
+    expect(isPhotoMessage(received)).toBe(false);
+    expect(isDocumentMessage(received)).toBe(true);
+    if (isDocumentMessage(received)) {
+      expect(received.document.file_id).toBe('doc');
+    }
+    expect(isMessageOfKind(received, 'document')).toBe(true);
+  });
+
+  it('should tell service messages from messages sent by users', () => {
+    expect(isServiceMessage(message({ left_chat_member: undefined }))).toBe(
+      false,
+    );
+    expect(isServiceMessage(message({ new_chat_title: 'Team' }))).toBe(true);
+    expect(isServiceMessage(message({ group_chat_created: true }))).toBe(true);
+    expect(isServiceMessage(message({ text: 'hi' }))).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  MessageOf,
+  TelegramContentMessageKind,
+  TelegramMessage,
+  TelegramMessageKind,
+  TelegramServiceMessage,
+  TelegramServiceMessageKind,
+} from './interfaces/telegramTypes.interface';
+
+/**
+ * Kinds of the messages sent by users, most specific first: an animation also has a `document`, a venue a `location`.
+ */
+export const CONTENT_MESSAGE_KINDS: TelegramContentMessageKind[] = [
+  'text',
+  'animation',
+  'audio',
+  'document',
+  'photo',
+  'sticker',
+  'video',
+  'video_note',
+  'voice',
+  'contact',
+  'game',
+  'poll',
+  'venue',
+  'location',
+  'invoice',
+  'successful_payment',
+  'passport_data',
+];
+
+export const SERVICE_MESSAGE_KINDS: TelegramServiceMessageKind[] = [
+  'new_chat_members',
+  'left_chat_member',
+  'new_chat_title',
+  'new_chat_photo',
+  'delete_chat_photo',
+  'group_chat_created',
+  'supergroup_chat_created',
+  'channel_chat_created',
+  'migrate_to_chat_id',
+  'migrate_from_chat_id',
+  'pinned_message',
+  'connected_website',
+];
+
+const MESSAGE_KINDS: TelegramMessageKind[] = [
+  ...CONTENT_MESSAGE_KINDS,
+  ...SERVICE_MESSAGE_KINDS,
+];
+
+/**
+ * Returns what the message is about, or `undefined` for a kind this version does not know.
+ */
+export function getMessageKind(
+  message: TelegramMessage,
+): TelegramMessageKind | undefined {
+  return MESSAGE_KINDS.find((kind) => message[kind] !== undefined);
+}
+
+/**
+ * Whether the message has the field of the given kind, narrowing it so the field can be used without a check.
+ * Unlike `getMessageKind`, an animation is a `'document'` message as well.
+ */
+export function isMessageOfKind<K extends TelegramMessageKind>(
+  message: TelegramMessage,
+  kind: K,
+): message is MessageOf<K> {
+  return message[kind] !== undefined;
+}
+
+/**
+ * Whether the message was sent by Telegram about an event in the chat rather than by a user.
+ */
+export function isServiceMessage(
+  message: TelegramMessage,
+): message is TelegramServiceMessage {
+  return SERVICE_MESSAGE_KINDS.some((kind) => message[kind] !== undefined);
+}
+
+export const isTextMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'text'> => isMessageOfKind(message, 'text');
+
+export const isAnimationMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'animation'> => isMessageOfKind(message, 'animation');
+
+export const isAudioMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'audio'> => isMessageOfKind(message, 'audio');
+
+export const isDocumentMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'document'> => isMessageOfKind(message, 'document');
+
+export const isPhotoMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'photo'> => isMessageOfKind(message, 'photo');
+
+export const isStickerMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'sticker'> => isMessageOfKind(message, 'sticker');
+
+export const isVideoMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'video'> => isMessageOfKind(message, 'video');
+
+export const isVideoNoteMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'video_note'> => isMessageOfKind(message, 'video_note');
+
+export const isVoiceMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'voice'> => isMessageOfKind(message, 'voice');
+
+export const isContactMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'contact'> => isMessageOfKind(message, 'contact');
+
+export const isPollMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'poll'> => isMessageOfKind(message, 'poll');
+
+export const isVenueMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'venue'> => isMessageOfKind(message, 'venue');
+
+export const isLocationMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'location'> => isMessageOfKind(message, 'location');
+
+export const isSuccessfulPaymentMessage = (
+  message: TelegramMessage,
+): message is MessageOf<'successful_payment'> =>
+  isMessageOfKind(message, 'successful_payment');
@@ -1,5 +1,49 @@
+import { Injectable } from '@nestjs/common';
 import { Test } from '@nestjs/testing';
+import { of } from 'rxjs';
+import {
+  InjectTelegram,
+  OnCommand,
+  TelegramHook,
+  TelegramUpdate,
+} from './decorators';
+import { TelegramCall, TelegramCallHook } from './interfaces';
+import { Update } from './interfaces/telegramTypes.interface';
 import { TelegramModule } from './telegram.module';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramService } from './telegram.service';
+import { getTelegramToken } from './telegram.tokens';
+
+const statusUpdate: Update = {
+  update_id: 1,
+  message: {
+    message_id: 1,
+    date: 0,
+    chat: { id: 8754, type: 'private' },
+    text: '/status',
+    entities: [{ type: 'bot_command', offset: 0, length: 7 }],
+  },
+};
+
+@TelegramUpdate('ops')
+@TelegramHook('ops')
+@Injectable()
+class OpsUpdate implements TelegramCallHook {
+  constructor(
+    @InjectTelegram('ops') readonly telegram: TelegramService,
+    @InjectTelegram() readonly customerTelegram: TelegramService,
+    readonly customerUpdates: TelegramUpdatesService,
+  ) {}
+
+  @OnCommand('status')
+  status() {
+    return 'All systems go';
+  }
+
+  beforeCall(call: TelegramCall) {
+    call.params = { disable_notification: true, ...call.params };
+  }
+}
 
 describe('telegramModule', () => {
   describe('forRoot', () => {
@@ -41,6 +85,19 @@ describe('telegramModule', () => {
       });
       expect(module).toBeDefined();
     });
+    it('should be defined (factory)(webhookPath)', async () => {
+      const module = await Test.createTestingModule({
+        imports: [
+          TelegramModule.forRootAsync({
+            useFactory: () => {
+              return { botKey: 'someKey' };
+            },
+            webhookPath: 'telegram/webhook',
+          }),
+        ],
+      });
+      expect(module).toBeDefined();
+    });
     it('should be defined (useClass)', async () => {
       const module = await Test.createTestingModule({
         imports: [
@@ -62,4 +119,73 @@ describe('telegramModule', () => {
       expect(module).toBeDefined();
     });
   });
+  describe('named bots', () => {
+    const createApp = async () => {
+      const module = await Test.createTestingModule({
+        imports: [
+          TelegramModule.forRoot({ botKey: 'customerKey' }),
+          TelegramModule.forRootAsync({
+            name: 'ops',
+            useFactory: () => ({ botKey: 'opsKey' }),
+          }),
+        ],
+        providers: [OpsUpdate],
+      }).compile();
+      return module.createNestApplication();
+    };
+
+    it('should inject the service of each bot', async () => {
+      const app = await createApp();
+      const customer = app.get(OpsUpdate).customerTelegram;
+      const ops = app.get(OpsUpdate).telegram;
+      expect(ops).not.toBe(customer);
+      expect(app.get(getTelegramToken('ops'))).toBe(ops);
+      expect(ops['options']).toEqual({ botKey: 'opsKey', name: 'ops' });
+      expect(customer['options']).toEqual({ botKey: 'customerKey' });
+      await app.close();
+    });
+
+    it('should pass the updates of a bot to its handlers only', async () => {
+      const app = await createApp();
+      const [customer, ops] = [
+        app.get(OpsUpdate).customerTelegram,
+        app.get(OpsUpdate).telegram,
+      ].map((telegram) => {
+        jest
+          .spyOn(telegram, 'getMe')
+          .mockReturnValue(of({ id: 2, is_bot: true, first_name: 'Bot' }));
+        return jest
+          .spyOn(telegram, 'sendMessage')
+          .mockReturnValue(of(undefined));
+      });
+      await app.init();
+
+      app.get(OpsUpdate).customerUpdates.push(statusUpdate);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(customer).not.toHaveBeenCalled();
+      expect(ops).not.toHaveBeenCalled();
+
+      app
+        .get<TelegramUpdatesService>(
+          getTelegramToken('ops', TelegramUpdatesService),
+        )
+        .push(statusUpdate);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(customer).not.toHaveBeenCalled();
+      expect(ops).toHaveBeenCalledWith({
+        chat_id: 8754,
+        text: 'All systems go',
+      });
+      await app.close();
+    });
+
+    it('should register the hooks of a bot with its service only', async () => {
+      const app = await createApp();
+      await app.init();
+      const opsUpdate = app.get(OpsUpdate);
+      expect(opsUpdate.telegram['hooks']).toEqual([opsUpdate]);
+      expect(opsUpdate.customerTelegram['hooks']).toEqual([]);
+      await app.close();
+    });
+  });
 });
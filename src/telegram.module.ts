@@ -1,24 +1,44 @@
-import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { DynamicModule, Module, Provider, Type } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { DiscoveryModule } from '@nestjs/core';
 import {
   TelegramModuleAsyncOptions,
   TelegramModuleOptions,
   TelegramOptionsFactory,
 } from './interfaces/telegram-module-options.interface';
 import { TELEGRAM_MODULE_OPTIONS } from './telegram.constants';
+import { TelegramExplorer } from './telegram.explorer';
 import { createTelegramProvider } from './telegram.provider';
+import { TelegramPollingService } from './telegram-polling.service';
+import { TelegramPromiseService } from './telegram-promise.service';
+import { TelegramSessionService } from './telegram-session.service';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { createTelegramWebhookController } from './telegram-webhook.controller';
 import { TelegramService } from './telegram.service';
+import { getTelegramToken } from './telegram.tokens';
+
+const EXPORTED_PROVIDERS: Type<unknown>[] = [
+  TelegramService,
+  TelegramPromiseService,
+  TelegramPollingService,
+  TelegramUpdatesService,
+  TelegramSessionService,
+];
 
 @Module({
-  imports: [HttpModule],
-  providers: [TelegramService],
-  exports: [TelegramService],
+  imports: [HttpModule, DiscoveryModule],
+  providers: [...EXPORTED_PROVIDERS, TelegramExplorer],
 })
 export class TelegramModule {
   static forRoot(options: TelegramModuleOptions): DynamicModule {
     return {
       module: TelegramModule,
-      providers: createTelegramProvider(options),
+      controllers: this.createWebhookControllers(options?.webhook?.path),
+      providers: [
+        ...createTelegramProvider(options),
+        ...this.createNamedProviders(options?.name),
+      ],
+      exports: this.getExports(options?.name),
     };
   }
 
@@ -26,10 +46,38 @@ export class TelegramModule {
     return {
       module: TelegramModule,
       imports: options.imports || [],
-      providers: this.createAsyncProvider(options),
+      controllers: this.createWebhookControllers(options.webhookPath),
+      providers: [
+        ...this.createAsyncProvider(options),
+        ...this.createNamedProviders(options.name),
+      ],
+      exports: this.getExports(options.name),
     };
   }
 
+  /**
+   * The providers of a named bot are exported under tokens including its name,
+   * so that several bots can be imported side by side.
+   */
+  private static createNamedProviders(name?: string): Provider[] {
+    return name
+      ? EXPORTED_PROVIDERS.map((provider) => ({
+          provide: getTelegramToken(name, provider),
+          useExisting: provider,
+        }))
+      : [];
+  }
+
+  private static getExports(name?: string): (string | Type<unknown>)[] {
+    return EXPORTED_PROVIDERS.map((provider) =>
+      getTelegramToken(name, provider),
+    );
+  }
+
+  private static createWebhookControllers(path?: string): Type<unknown>[] {
+    return path ? [createTelegramWebhookController(path)] : [];
+  }
+
   private static createAsyncProvider(
     options: TelegramModuleAsyncOptions,
   ): Provider[] {
@@ -51,15 +99,23 @@ export class TelegramModule {
     if (options.useFactory) {
       return {
         provide: TELEGRAM_MODULE_OPTIONS,
-        useFactory: options.useFactory,
+        useFactory: async (...args: unknown[]) =>
+          withName(await options.useFactory(...args), options.name),
         inject: options.inject || [],
       };
     }
     return {
       provide: TELEGRAM_MODULE_OPTIONS,
       useFactory: async (optionsFactory: TelegramOptionsFactory) =>
-        await optionsFactory.createTelegramOptions(),
+        withName(await optionsFactory.createTelegramOptions(), options.name),
       inject: [options.useExisting || options.useClass],
     };
   }
 }
+
+function withName(
+  options: TelegramModuleOptions,
+  name?: string,
+): TelegramModuleOptions {
+  return name ? { ...options, name } : options;
+}
@@ -0,0 +1,139 @@
+import * as FormData from 'form-data';
+import { ReadStream } from 'fs';
+import { basename } from 'path';
+import { InputFile } from './input-file';
+import { buildRequestBody } from './telegram.multipart';
+
+const replyMarkup = {
+  inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]],
+};
+
+describe('buildRequestBody', () => {
+  it('should send JSON when there is nothing to upload', () => {
+    const params = { chat_id: 1, photo: 'file id', reply_markup: replyMarkup };
+    expect(buildRequestBody(params)).toEqual({ data: params });
+  });
+
+  it('should send the URL of an InputFile built from a URL', () => {
+    expect(
+      buildRequestBody({
+        chat_id: 1,
+        photo: InputFile.fromUrl('https://example.com/cat.jpg'),
+      }),
+    ).toEqual({
+      data: { chat_id: 1, photo: 'https://example.com/cat.jpg' },
+    });
+  });
+
+  it('should build multipart/form-data when uploading', () => {
+    const { data, headers } = buildRequestBody({
+      chat_id: 1,
+      document: InputFile.fromBuffer(Buffer.from('%PDF'), {
+        filename: 'report.pdf',
+        contentType: 'application/pdf',
+      }),
+      caption: undefined,
+      disable_notification: true,
+      reply_markup: replyMarkup,
+    });
+    expect(data).toBeInstanceOf(FormData);
+    expect(headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    const body = (data as FormData).getBuffer().toString();
+    expect(body).toContain(
+      'name="document"; filename="report.pdf"\r\nContent-Type: application/pdf\r\n\r\n%PDF',
+    );
+    expect(body).toContain('name="chat_id"\r\n\r\n1');
+    expect(body).toContain('name="disable_notification"\r\n\r\ntrue');
+    expect(body).toContain(
+      `name="reply_markup"\r\n\r\n${JSON.stringify(replyMarkup)}`,
+    );
+    expect(body).not.toContain('name="caption"');
+  });
+
+  it('should name a plain Buffer after its field', () => {
+    const { data } = buildRequestBody({ chat_id: 1, photo: Buffer.from('x') });
+    expect((data as FormData).getBuffer().toString()).toContain(
+      'name="photo"; filename="photo"',
+    );
+  });
+});
+
+describe('buildRequestBody with media', () => {
+  it('should attach media group files and thumbnails', () => {
+    const { data } = buildRequestBody({
+      chat_id: 1,
+      media: [
+        { type: 'photo', media: 'file id' },
+        {
+          type: 'video',
+          media: InputFile.fromBuffer(Buffer.from('video'), {
+            filename: 'clip.mp4',
+          }),
+          thumb: Buffer.from('thumb'),
+        },
+      ],
+    });
+    const body = (data as FormData).getBuffer().toString();
+    expect(body).toContain(
+      `name="media"\r\n\r\n${JSON.stringify([
+        { type: 'photo', media: 'file id' },
+        { type: 'video', media: 'attach://media1', thumb: 'attach://thumb1' },
+      ])}`,
+    );
+    expect(body).toContain('name="media1"; filename="clip.mp4"');
+    expect(body).toContain('name="thumb1"; filename="thumb1"');
+  });
+
+  it('should attach the file of a single media object', () => {
+    const { data } = buildRequestBody({
+      chat_id: 1,
+      message_id: 2,
+      media: { type: 'photo', media: Buffer.from('photo') },
+    });
+    const body = (data as FormData).getBuffer().toString();
+    expect(body).toContain(
+      `name="media"\r\n\r\n${JSON.stringify({
+        type: 'photo',
+        media: 'attach://media0',
+      })}`,
+    );
+    expect(body).toContain('name="media0"; filename="media0"');
+  });
+
+  it('should send the URL of media built from a URL next to uploads', () => {
+    const { data } = buildRequestBody({
+      chat_id: 1,
+      media: [
+        {
+          type: 'photo',
+          media: InputFile.fromUrl('https://example.com/a.jpg'),
+        },
+        { type: 'photo', media: Buffer.from('photo') },
+      ],
+    });
+    const body = (data as FormData).getBuffer().toString();
+    expect(body).toContain(
+      `name="media"\r\n\r\n${JSON.stringify([
+        { type: 'photo', media: 'https://example.com/a.jpg' },
+        { type: 'photo', media: 'attach://media1' },
+      ])}`,
+    );
+  });
+});
+
+describe('InputFile', () => {
+  it('should open a file from its path and keep its name', () => {
+    const file = InputFile.fromPath(__filename);
+    const content = file.getContent() as ReadStream;
+    expect(file.isUpload).toBe(true);
+    expect(file.options.filename).toBe(basename(__filename));
+    expect(content).toBeInstanceOf(ReadStream);
+    content.destroy();
+  });
+
+  it('should not upload a URL', () => {
+    expect(InputFile.fromUrl('https://example.com/cat.jpg').isUpload).toBe(
+      false,
+    );
+  });
+});
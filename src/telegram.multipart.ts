@@ -0,0 +1,101 @@
+import * as FormData from 'form-data';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import { InputFile } from './input-file';
+
+const MEDIA_FILE_FIELDS = ['media', 'thumb'];
+
+export interface TelegramRequestBody {
+  data: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Whether the value is the content of a file that has to be uploaded.
+ */
+export function isUploadFile(value: unknown): boolean {
+  return value instanceof InputFile
+    ? value.isUpload
+    : Buffer.isBuffer(value) || value instanceof Readable;
+}
+
+/**
+ * Builds the body of a Bot API call: plain JSON, or multipart/form-data as
+ * soon as one of the parameters is a file to upload.
+ */
+export function buildRequestBody(params?: object): TelegramRequestBody {
+  if (!params) {
+    return { data: params };
+  }
+  params = attachMediaFiles(params);
+  const keys = Object.keys(params);
+  if (!keys.some((key) => isUploadFile(params[key]))) {
+    return {
+      data: keys.reduce(
+        (data, key) => ({ ...data, [key]: toJsonValue(params[key]) }),
+        {},
+      ),
+    };
+  }
+  const form = new FormData();
+  keys.forEach((key) => appendField(form, key, params[key]));
+  return { data: form, headers: form.getHeaders() };
+}
+
+/**
+ * `InputMedia` objects cannot carry a file themselves, files to upload are
+ * sent as separate fields and referenced with `attach://<field name>`, while
+ * files built from a URL are replaced by the URL.
+ */
+function attachMediaFiles(params: object): object {
+  const media = params['media'];
+  if (!media || typeof media !== 'object') {
+    return params;
+  }
+  const attachments = {};
+  const attach = (item: object, index: number) =>
+    MEDIA_FILE_FIELDS.reduce((attached, field) => {
+      if (!isUploadFile(item[field])) {
+        return item[field] instanceof InputFile
+          ? { ...attached, [field]: toJsonValue(item[field]) }
+          : attached;
+      }
+      const name = `${field}${index}`;
+      attachments[name] = item[field];
+      return { ...attached, [field]: `attach://${name}` };
+    }, item);
+  return {
+    ...params,
+    media: Array.isArray(media) ? media.map(attach) : attach(media, 0),
+    ...attachments,
+  };
+}
+
+function toJsonValue(value: unknown): unknown {
+  return value instanceof InputFile ? value.getContent() : value;
+}
+
+function appendField(form: FormData, name: string, value: unknown) {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (value instanceof InputFile && !value.isUpload) {
+    form.append(name, value.getContent());
+  } else if (value instanceof InputFile) {
+    form.append(name, value.getContent(), {
+      filename: value.options.filename || name,
+      contentType: value.options.contentType,
+    });
+  } else if (Buffer.isBuffer(value)) {
+    form.append(name, value, { filename: name });
+  } else if (value instanceof Readable) {
+    const path = (value as Readable & { path?: unknown }).path;
+    form.append(name, value, {
+      filename: typeof path === 'string' ? basename(path) : name,
+    });
+  } else if (typeof value === 'object') {
+    form.append(name, JSON.stringify(value));
+  } else {
+    form.append(name, String(value));
+  }
+}
@@ -0,0 +1,70 @@
+import { TelegramRateLimiter } from './telegram.rate-limiter';
+
+describe('TelegramRateLimiter', () => {
+  let limiter: TelegramRateLimiter;
+  let started: string[];
+
+  const send = (chatId: number | string, name: string) =>
+    limiter.schedule(chatId).subscribe(() => started.push(name));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    started = [];
+    limiter = new TelegramRateLimiter({
+      globalPerSecond: 3,
+      privateChatPerSecond: 1,
+      groupPerMinute: 2,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start a call right away when under every limit', () => {
+    send(1, 'first');
+    expect(started).toEqual(['first']);
+  });
+
+  it('should hold a second message to the same private chat for a second', () => {
+    send(1, 'first');
+    send(1, 'second');
+    expect(started).toEqual(['first']);
+    jest.advanceTimersByTime(1000);
+    expect(started).toEqual(['first', 'second']);
+  });
+
+  it('should not hold back other chats while one chat is waiting', () => {
+    send(1, 'first');
+    send(1, 'second');
+    send(2, 'other');
+    expect(started).toEqual(['first', 'other']);
+  });
+
+  it('should apply the per minute limit to groups', () => {
+    send(-100, 'one');
+    send(-100, 'two');
+    send('@channel', 'channel');
+    send(-100, 'three');
+    expect(started).toEqual(['one', 'two', 'channel']);
+    jest.advanceTimersByTime(59999);
+    expect(started).toEqual(['one', 'two', 'channel']);
+    jest.advanceTimersByTime(1);
+    expect(started).toEqual(['one', 'two', 'channel', 'three']);
+  });
+
+  it('should apply the global limit across chats', () => {
+    [1, 2, 3, 4].forEach((chatId) => send(chatId, chatId.toString()));
+    expect(started).toEqual(['1', '2', '3']);
+    jest.advanceTimersByTime(1000);
+    expect(started).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('should drop a queued call once unsubscribed', () => {
+    send(1, 'first');
+    send(1, 'second').unsubscribe();
+    send(1, 'third');
+    jest.advanceTimersByTime(1000);
+    expect(started).toEqual(['first', 'third']);
+  });
+});
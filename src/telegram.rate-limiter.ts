@@ -0,0 +1,144 @@
+import { Observable } from 'rxjs';
+import { TelegramRateLimitOptions } from './interfaces';
+
+const DEFAULT_RATE_LIMIT_OPTIONS: Required<TelegramRateLimitOptions> = {
+  globalPerSecond: 30,
+  privateChatPerSecond: 1,
+  groupPerMinute: 20,
+};
+
+const GLOBAL_KEY = '*';
+
+interface RateLimitWindow {
+  key: string;
+  limit: number;
+  interval: number;
+}
+
+interface QueuedCall {
+  windows: RateLimitWindow[];
+  start: () => void;
+}
+
+/**
+ * Queues outgoing messages so a bot stays below Telegram's global and per chat
+ * limits. Every limit is a sliding window over the calls actually started, and
+ * a call waiting for a busy chat does not hold back calls to other chats.
+ */
+export class TelegramRateLimiter {
+  private readonly options: Required<TelegramRateLimitOptions>;
+  private readonly queue: QueuedCall[] = [];
+  private readonly started = new Map<string, number[]>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: TelegramRateLimitOptions) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+  }
+
+  /**
+   * Emits once, then completes, as soon as a message to the given chat may be sent.
+   * Unsubscribing before that removes the call from the queue.
+   */
+  schedule(chatId?: number | string): Observable<void> {
+    return new Observable<void>((subscriber) => {
+      const call: QueuedCall = {
+        windows: this.getWindows(chatId),
+        start: () => {
+          subscriber.next();
+          subscriber.complete();
+        },
+      };
+      this.queue.push(call);
+      this.drain();
+      return () => {
+        const index = this.queue.indexOf(call);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+      };
+    });
+  }
+
+  private drain() {
+    const now = Date.now();
+    let wait = Infinity;
+    for (const call of [...this.queue]) {
+      if (this.queue.indexOf(call) === -1) {
+        // already started by a drain triggered from an earlier call
+        continue;
+      }
+      const delay = Math.max(
+        ...call.windows.map((window) => this.getDelay(window, now)),
+      );
+      if (delay > 0) {
+        wait = Math.min(wait, delay);
+        continue;
+      }
+      call.windows.forEach((window) =>
+        this.started.set(window.key, [
+          ...(this.started.get(window.key) || []),
+          now,
+        ]),
+      );
+      this.queue.splice(this.queue.indexOf(call), 1);
+      call.start();
+    }
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.queue.length) {
+      this.timer = setTimeout(() => this.drain(), wait);
+    } else {
+      this.forgetIdleChats(now);
+    }
+  }
+
+  private forgetIdleChats(now: number) {
+    this.started.forEach((started, key) => {
+      if (started[started.length - 1] <= now - 60000) {
+        this.started.delete(key);
+      }
+    });
+  }
+
+  private getDelay(window: RateLimitWindow, now: number): number {
+    const started = (this.started.get(window.key) || []).filter(
+      (time) => time > now - window.interval,
+    );
+    if (started.length) {
+      this.started.set(window.key, started);
+    } else {
+      this.started.delete(window.key);
+    }
+    if (started.length < window.limit) {
+      return 0;
+    }
+    return started[started.length - window.limit] + window.interval - now;
+  }
+
+  private getWindows(chatId?: number | string): RateLimitWindow[] {
+    const windows: RateLimitWindow[] = [
+      {
+        key: GLOBAL_KEY,
+        limit: this.options.globalPerSecond,
+        interval: 1000,
+      },
+    ];
+    if (chatId === undefined || chatId === null) {
+      return windows;
+    }
+    windows.push(
+      Number(chatId) > 0
+        ? {
+            key: chatId.toString(),
+            limit: this.options.privateChatPerSecond,
+            interval: 1000,
+          }
+        : {
+            key: chatId.toString(),
+            limit: this.options.groupPerMinute,
+            interval: 60000,
+          },
+    );
+    return windows;
+  }
+}
@@ -0,0 +1,86 @@
+import { defer, lastValueFrom, of, throwError } from 'rxjs';
+import { TelegramException } from './interfaces/telegramTypes.interface';
+import { createTelegramError, createTelegramResponseError } from './errors';
+import { getRetryDelay, retryTelegramCall } from './telegram.retry';
+
+const options = {
+  retries: 3,
+  minDelay: 100,
+  maxDelay: 1000,
+  maxRetryAfter: 10,
+};
+
+const telegramError = (error_code: number, retry_after?: number) =>
+  createTelegramResponseError({
+    ok: false,
+    error_code,
+    description: 'error',
+    parameters: { retry_after },
+  });
+
+const axiosError = (status?: number, data?: any) =>
+  createTelegramError({
+    isAxiosError: true,
+    message: 'Request failed',
+    response: status ? { status, data } : undefined,
+  });
+
+describe('telegram retry', () => {
+  describe('getRetryDelay', () => {
+    it('should wait for retry_after on flood control', () => {
+      expect(getRetryDelay(telegramError(429, 5), 1, options)).toBe(5000);
+    });
+    it('should read retry_after from an axios error body', () => {
+      const error = axiosError(429, {
+        ok: false,
+        error_code: 429,
+        parameters: { retry_after: 2 },
+      });
+      expect(getRetryDelay(error, 1, options)).toBe(2000);
+    });
+    it('should give up when retry_after is longer than allowed', () => {
+      expect(getRetryDelay(telegramError(429, 11), 1, options)).toBeUndefined();
+    });
+    it('should back off exponentially on server errors', () => {
+      const first = getRetryDelay(axiosError(502), 1, options);
+      const third = getRetryDelay(axiosError(502), 3, options);
+      expect(first).toBeGreaterThanOrEqual(50);
+      expect(first).toBeLessThanOrEqual(100);
+      expect(third).toBeGreaterThanOrEqual(200);
+      expect(third).toBeLessThanOrEqual(400);
+    });
+    it('should never wait longer than maxDelay', () => {
+      expect(getRetryDelay(axiosError(), 10, options)).toBeLessThanOrEqual(
+        1000,
+      );
+    });
+    it('should not retry a bad request', () => {
+      expect(getRetryDelay(telegramError(400), 1, options)).toBeUndefined();
+      expect(getRetryDelay(axiosError(400), 1, options)).toBeUndefined();
+    });
+    it('should not retry unknown errors', () => {
+      expect(
+        getRetryDelay(createTelegramError(new Error('boom')), 1, options),
+      ).toBeUndefined();
+    });
+  });
+  describe('retryTelegramCall', () => {
+    it('should resubscribe until the call succeeds', async () => {
+      let calls = 0;
+      const source = defer(() =>
+        ++calls < 3 ? throwError(() => telegramError(429, 0)) : of('done'),
+      );
+      await expect(
+        lastValueFrom(source.pipe(retryTelegramCall(options))),
+      ).resolves.toBe('done');
+      expect(calls).toBe(3);
+    });
+    it('should rethrow errors that are not retried', async () => {
+      await expect(
+        lastValueFrom(
+          throwError(() => telegramError(400)).pipe(retryTelegramCall(options)),
+        ),
+      ).rejects.toBeInstanceOf(TelegramException);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { MonoTypeOperatorFunction, retry, throwError, timer } from 'rxjs';
+import { TelegramRetryOptions } from './interfaces';
+import { TelegramException } from './interfaces/telegramTypes.interface';
+import { TelegramNetworkError, TelegramRateLimitError } from './errors';
+
+const DEFAULT_RETRY_OPTIONS: Required<TelegramRetryOptions> = {
+  retries: 3,
+  minDelay: 500,
+  maxDelay: 30000,
+  maxRetryAfter: 60,
+};
+
+/**
+ * Repeats a failed Bot API call when Telegram asks us to wait (429), when it
+ * had a server error (5xx) or when the request never got an answer. Expects
+ * the errors to have been turned into `TelegramException`s already.
+ */
+export function retryTelegramCall<T>(
+  options: TelegramRetryOptions,
+): MonoTypeOperatorFunction<T> {
+  const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  return retry<T>({
+    count: config.retries,
+    delay: (error: TelegramException, attempt: number) => {
+      const delay = getRetryDelay(error, attempt, config);
+      return delay === undefined ? throwError(() => error) : timer(delay);
+    },
+  });
+}
+
+/**
+ * Returns how many milliseconds to wait before the given attempt is repeated,
+ * or `undefined` if the error must not be retried.
+ */
+export function getRetryDelay(
+  error: TelegramException,
+  attempt: number,
+  options: Required<TelegramRetryOptions>,
+): number | undefined {
+  if (error instanceof TelegramRateLimitError) {
+    const retryAfter = error.retryAfter ?? 1;
+    return retryAfter <= options.maxRetryAfter ? retryAfter * 1000 : undefined;
+  }
+  if (isAborted(error)) {
+    return undefined;
+  }
+  if (error instanceof TelegramNetworkError || error.errorCode >= 500) {
+    const ceiling = Math.min(
+      options.maxDelay,
+      options.minDelay * 2 ** (attempt - 1),
+    );
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+  return undefined;
+}
+
+/**
+ * Whether the request was cancelled with the `signal` of its call options.
+ */
+function isAborted(error: TelegramException): boolean {
+  return (
+    error instanceof TelegramNetworkError &&
+    (error.cause as { code?: string })?.code === 'ERR_CANCELED'
+  );
+}
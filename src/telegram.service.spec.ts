@@ -1,5 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { of } from 'rxjs';
+import { existsSync, readFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { Readable } from 'stream';
+import { inspect } from 'util';
 import {
   TelegramChat,
   TelegramChatMember,
@@ -13,12 +18,20 @@ import {
   TelegramStickerSet,
   TelegramUser,
   TelegramUserProfilePhotos,
+  TelegramWebhookInfo,
 } from './interfaces/telegramTypes.interface';
+import { TelegramChatMigratedError, TelegramForbiddenError } from './errors';
+import { TelegramCallHook } from './interfaces';
+import { InputFile } from './input-file';
 import { TelegramService } from './telegram.service';
 
 const postMock = jest.fn();
 
-const multiPartHeader = { headers: { 'Content-Type': 'multipart/form-data' } };
+const multiPartHeader = {
+  headers: {
+    'content-type': expect.stringMatching(/^multipart\/form-data; boundary=/),
+  },
+};
 
 const telegramObserver = <T>(
   done: () => void,
@@ -50,8 +63,11 @@ const telegramRes = <T>(response: T) => ({
   result: response,
 });
 
+const getMock = jest.fn();
+
 const httpMock = {
   post: postMock,
+  get: getMock,
 };
 
 const sendMessageParams: TelegramSendMessageParams = {
@@ -110,6 +126,230 @@ describe('TelegramService', () => {
     it('should still be defined', () => {
       expect(service).toBeDefined();
     });
+    it('should call the official Bot API by default', () => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(user))));
+      service.getMe().subscribe();
+      expect(postMock.mock.calls[0][0]).toBe(
+        'https://api.telegram.org/botsomeBotKey/getMe',
+      );
+      expect(service.getFileUrl('photos/file_1.jpg')).toBe(
+        'https://api.telegram.org/file/botsomeBotKey/photos/file_1.jpg',
+      );
+    });
+  });
+
+  describe('bot key validation', () => {
+    const createService = (validateBotKey: boolean | 'warn') =>
+      new TelegramService(
+        { botKey: '123456:secretPart', validateBotKey },
+        httpMock as any,
+      );
+
+    it('should cache the bot when the key is valid', async () => {
+      service = createService(true);
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(user))));
+      await service.onModuleInit();
+      expect(postMock.mock.calls[0][0]).toBe(
+        'https://api.telegram.org/bot123456:secretPart/getMe',
+      );
+      expect(service.botInfo).toEqual(user);
+    });
+    it('should fail with the key masked when it is rejected', async () => {
+      service = createService(true);
+      postMock.mockReturnValueOnce(
+        of(
+          axiosRes({ ok: false, error_code: 401, description: 'Unauthorized' }),
+        ),
+      );
+      await expect(service.onModuleInit()).rejects.toThrow(
+        'Telegram bot key 123456:*** could not be validated: Unauthorized',
+      );
+      expect(service.botInfo).toBeUndefined();
+    });
+    it('should only warn when asked to', async () => {
+      service = createService('warn');
+      postMock.mockReturnValueOnce(
+        of(
+          axiosRes({ ok: false, error_code: 401, description: 'Unauthorized' }),
+        ),
+      );
+      const warn = jest
+        .spyOn(service['logger'], 'warn')
+        .mockImplementation(() => undefined);
+      await service.onModuleInit();
+      expect(warn).toHaveBeenCalledWith(
+        expect.not.stringContaining('secretPart'),
+      );
+    });
+  });
+
+  describe('call hooks', () => {
+    const createService = (hooks: TelegramCallHook[]) => {
+      service = new TelegramService(
+        { botKey: 'someBotKey', hooks },
+        httpMock as any,
+      );
+      service.onModuleInit();
+    };
+
+    it('should send the parameters changed by the hooks', async () => {
+      createService([
+        {
+          beforeCall: (call) => {
+            call.params = { parse_mode: 'HTML', ...call.params };
+          },
+        },
+      ]);
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(message))));
+      await lastValueFrom(service.sendMessage(sendMessageParams));
+      expect(postMock.mock.calls[0][1]).toEqual({
+        ...sendMessageParams,
+        parse_mode: 'HTML',
+      });
+    });
+    it('should skip the call when a hook returns a result', async () => {
+      const [beforeCall, afterCall] = [jest.fn(), jest.fn()];
+      createService([
+        { beforeCall: async () => message },
+        { beforeCall, afterCall },
+      ]);
+      await expect(
+        lastValueFrom(service.sendMessage(sendMessageParams)),
+      ).resolves.toEqual(message);
+      expect(postMock).not.toHaveBeenCalled();
+      expect(beforeCall).not.toHaveBeenCalled();
+      expect(afterCall).toHaveBeenCalledWith(
+        { method: 'sendMessage', params: sendMessageParams },
+        { result: message, duration: expect.any(Number) },
+      );
+    });
+    it('should tell the hooks how the call ended', async () => {
+      const afterCall = jest.fn();
+      createService([{ afterCall }]);
+      postMock.mockReturnValueOnce(
+        of(axiosRes({ ok: false, error_code: 403, description: 'Forbidden' })),
+      );
+      service.addHook({ afterCall });
+      await expect(
+        lastValueFrom(service.sendMessage(sendMessageParams)),
+      ).rejects.toBeInstanceOf(TelegramForbiddenError);
+      expect(afterCall).toHaveBeenCalledTimes(2);
+      expect(afterCall).toHaveBeenCalledWith(
+        { method: 'sendMessage', params: sendMessageParams },
+        {
+          error: expect.any(TelegramForbiddenError),
+          duration: expect.any(Number),
+        },
+      );
+    });
+  });
+
+  describe('call options', () => {
+    beforeEach(() => {
+      service = new TelegramService(
+        { botKey: 'someBotKey', requestTimeout: 10000, retry: { retries: 2 } },
+        httpMock as any,
+      );
+      service.onModuleInit();
+    });
+
+    it('should send the requests of withOptions with the options', async () => {
+      const controller = new AbortController();
+      const httpsAgent = {};
+      postMock
+        .mockReturnValueOnce(of(axiosRes(telegramRes(user))))
+        .mockReturnValueOnce(of(axiosRes(telegramRes(user))));
+      const withOptions = service
+        .withOptions({ timeout: 5000, axios: { httpsAgent } })
+        .withOptions({ signal: controller.signal });
+      await lastValueFrom(withOptions.getMe());
+      expect(postMock.mock.calls[0][2]).toEqual({
+        timeout: 5000,
+        signal: controller.signal,
+        httpsAgent,
+      });
+      expect(service.botInfo).toEqual(user);
+      await lastValueFrom(service.getMe());
+      expect(postMock.mock.calls[1][2]).toEqual({ timeout: 10000 });
+    });
+    it('should wait longer than Telegram holds long polling calls', async () => {
+      postMock
+        .mockReturnValueOnce(of(axiosRes(telegramRes([]))))
+        .mockReturnValueOnce(of(axiosRes(telegramRes([]))));
+      await lastValueFrom(service.getUpdates({ timeout: 30 }));
+      await lastValueFrom(service.getUpdates({ timeout: 0 }));
+      expect(postMock.mock.calls[0][2]).toEqual({ timeout: 40000 });
+      expect(postMock.mock.calls[1][2]).toEqual({ timeout: 10000 });
+    });
+    it('should not retry aborted requests', async () => {
+      postMock.mockReturnValueOnce(
+        throwError(() =>
+          Object.assign(new Error('canceled'), {
+            isAxiosError: true,
+            code: 'ERR_CANCELED',
+          }),
+        ),
+      );
+      await expect(lastValueFrom(service.getMe())).rejects.toThrow('canceled');
+      expect(postMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bot key redaction', () => {
+    beforeEach(() => {
+      service = new TelegramService(
+        { botKey: '123456:secretPart' },
+        httpMock as any,
+      );
+      service.onModuleInit();
+    });
+
+    it('should remove the key from the errors of failed requests', (done) => {
+      const url = 'https://api.telegram.org/bot123456:secretPart/getMe';
+      postMock.mockReturnValueOnce(
+        throwError(() =>
+          Object.assign(new Error(`Invalid URL ${url}`), {
+            isAxiosError: true,
+            config: { url },
+          }),
+        ),
+      );
+      service.getMe().subscribe({
+        error(error: TelegramException) {
+          expect(error.message).toBe(
+            'Invalid URL https://api.telegram.org/bot123456:***/getMe',
+          );
+          expect(inspect(error, { depth: 5 })).not.toContain('secretPart');
+          done();
+        },
+      });
+    });
+    it('should not show the key when serialized', () => {
+      expect(JSON.stringify(service)).toBe('{"botKey":"123456:***"}');
+      expect(inspect(service)).not.toContain('secretPart');
+    });
+  });
+
+  describe('custom API root', () => {
+    it('should call a self-hosted server in the test environment', () => {
+      service = new TelegramService(
+        {
+          botKey: 'someBotKey',
+          apiRoot: 'http://localhost:8081/',
+          testEnvironment: true,
+        },
+        httpMock as any,
+      );
+      service.onModuleInit();
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(user))));
+      service.getMe().subscribe();
+      expect(postMock.mock.calls[0][0]).toBe(
+        'http://localhost:8081/botsomeBotKey/test/getMe',
+      );
+      expect(service.getFileUrl('photos/file_1.jpg')).toBe(
+        'http://localhost:8081/file/botsomeBotKey/test/photos/file_1.jpg',
+      );
+    });
   });
 
   it('should be defined', () => {
@@ -138,6 +378,118 @@ describe('TelegramService', () => {
       });
     });
   });
+  describe('typed errors', () => {
+    it('should raise the exception matching the error code', (done) => {
+      postMock.mockReturnValueOnce(
+        of(
+          axiosRes({
+            ok: false,
+            error_code: 403,
+            description: 'Forbidden: bot was blocked by the user',
+          }),
+        ),
+      );
+      service.sendMessage(sendMessageParams).subscribe({
+        error(error: TelegramForbiddenError) {
+          expect(error).toBeInstanceOf(TelegramForbiddenError);
+          expect(error.errorCode).toBe(403);
+          expect(error.method).toBe('sendMessage');
+          expect(error.params).toEqual(sendMessageParams);
+          done();
+        },
+      });
+    });
+  });
+  describe('chat migration', () => {
+    const migrated = axiosRes({
+      ok: false,
+      error_code: 400,
+      description: 'Bad Request: group chat was upgraded to a supergroup chat',
+      parameters: { migrate_to_chat_id: -1001234 },
+    });
+
+    it('should report the migration and fail by default', (done) => {
+      const onChatMigrated = jest.fn();
+      const migrations = jest.fn();
+      service = new TelegramService(
+        { botKey: 'someBotKey', onChatMigrated },
+        httpMock as any,
+      );
+      service.chatMigrations.subscribe(migrations);
+      postMock.mockReturnValueOnce(of(migrated));
+      service.sendMessage(sendMessageParams).subscribe({
+        error(error) {
+          const migration = {
+            fromChatId: 8754,
+            toChatId: -1001234,
+            method: 'sendMessage',
+          };
+          expect(error).toBeInstanceOf(TelegramChatMigratedError);
+          expect(onChatMigrated).toHaveBeenCalledWith(migration);
+          expect(migrations).toHaveBeenCalledWith(migration);
+          done();
+        },
+      });
+    });
+    it('should repeat the call with the new chat id when following migrations', (done) => {
+      service = new TelegramService(
+        { botKey: 'someBotKey', followChatMigration: true },
+        httpMock as any,
+      );
+      postMock
+        .mockReturnValueOnce(of(migrated))
+        .mockReturnValueOnce(of(axiosRes(telegramRes(message))));
+      service.sendMessage(sendMessageParams).subscribe({
+        next(nextValue) {
+          expect(nextValue).toEqual(message);
+          expect(postMock).toHaveBeenCalledTimes(2);
+          expect(postMock.mock.calls[1][1]).toEqual({
+            ...sendMessageParams,
+            chat_id: -1001234,
+          });
+          done();
+        },
+      });
+    });
+  });
+  describe('webhooks', () => {
+    it('should get the response for setWebhook', (done) => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
+      service
+        .setWebhook({ url: 'https://example.com/telegram/webhook' })
+        .subscribe(telegramObserver(done, true, 1));
+    });
+    it('should register the configured secret token with setWebhook', () => {
+      service = new TelegramService(
+        { botKey: 'someBotKey', webhook: { secretToken: 'secret' } },
+        httpMock as any,
+      );
+      service.onModuleInit();
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
+      service
+        .setWebhook({ url: 'https://example.com/telegram/webhook' })
+        .subscribe();
+      expect(postMock.mock.calls[0][1]).toEqual({
+        secret_token: 'secret',
+        url: 'https://example.com/telegram/webhook',
+      });
+    });
+    it('should get the response for deleteWebhook', (done) => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
+      service.deleteWebhook().subscribe(telegramObserver(done, true, 1));
+    });
+    it('should get the response for getWebhookInfo', (done) => {
+      const webhookInfo: TelegramWebhookInfo = {
+        url: 'https://example.com/telegram/webhook',
+        has_custom_certificate: false,
+        pending_update_count: 0,
+      };
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(webhookInfo))));
+      service
+        .getWebhookInfo()
+        .subscribe(telegramObserver(done, webhookInfo, 1));
+    });
+  });
   describe('getMe', () => {
     it('should return the bot user', (done) => {
       postMock.mockReturnValueOnce(of(axiosRes(telegramRes(user))));
@@ -308,6 +660,20 @@ describe('TelegramService', () => {
       });
     });
     describe('sendMediaGroup', () => {
+      it('should get the response for sendMediaGroup (string)', (done) => {
+        postMock.mockReturnValueOnce(of(axiosRes(telegramRes([message]))));
+        service
+          .sendMediaGroup({
+            chat_id: 8754,
+            media: [
+              {
+                type: 'photo',
+                media: 'file id of photo',
+              },
+            ],
+          })
+          .subscribe(telegramObserver(done, [message], 1));
+      });
       it('should get the response for sendMediaGroup (multipart)', (done) => {
         postMock.mockReturnValueOnce(of(axiosRes(telegramRes([message]))));
         service
@@ -318,10 +684,41 @@ describe('TelegramService', () => {
                 type: 'photo',
                 media: Buffer.alloc(10),
               },
+              {
+                type: 'photo',
+                media: Buffer.alloc(10),
+              },
             ],
           })
           .subscribe(telegramObserver(done, [message], 1, multiPartHeader));
       });
+      it('should send the URL of media built from a URL', async () => {
+        postMock.mockReturnValueOnce(of(axiosRes(telegramRes([message]))));
+        await lastValueFrom(
+          service.sendMediaGroup({
+            chat_id: 8754,
+            media: [
+              {
+                type: 'photo',
+                media: InputFile.fromUrl('https://example.com/a.jpg'),
+                thumb: InputFile.fromUrl('https://example.com/a_thumb.jpg'),
+              },
+              { type: 'photo', media: 'file id of photo' },
+            ],
+          }),
+        );
+        expect(postMock.mock.calls[0][1]).toEqual({
+          chat_id: 8754,
+          media: [
+            {
+              type: 'photo',
+              media: 'https://example.com/a.jpg',
+              thumb: 'https://example.com/a_thumb.jpg',
+            },
+            { type: 'photo', media: 'file id of photo' },
+          ],
+        });
+      });
     });
   });
   describe('sendLocation', () => {
@@ -455,6 +852,115 @@ describe('TelegramService', () => {
         .subscribe(telegramObserver(done, file, 1));
     });
   });
+  describe('downloadFile', () => {
+    const file: TelegramFile = {
+      file_id: 'file id',
+      file_size: 4,
+      file_path: 'documents/file_1.pdf',
+    };
+    const content = Buffer.from('%PDF');
+
+    beforeEach(() => {
+      service.onModuleInit();
+    });
+
+    it('should download the file without exposing the link', async () => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(file))));
+      getMock.mockReturnValueOnce(of({ data: content, headers: {} }));
+      await expect(
+        lastValueFrom(service.downloadFile('file id')),
+      ).resolves.toEqual(content);
+      expect(getMock.mock.calls[0][0]).toBe(
+        'https://api.telegram.org/file/botsomeBotKey/documents/file_1.pdf',
+      );
+    });
+    it('should refuse files over the size limit', async () => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(file))));
+      await expect(
+        lastValueFrom(service.downloadFile('file id', { maxSize: 3 })),
+      ).rejects.toThrow(
+        'File of 4 bytes exceeds the download limit of 3 bytes',
+      );
+      expect(getMock).not.toHaveBeenCalled();
+    });
+    it('should ask for a new link when the old one expired', async () => {
+      postMock
+        .mockReturnValueOnce(of(axiosRes(telegramRes(file))))
+        .mockReturnValueOnce(of(axiosRes(telegramRes(file))));
+      getMock
+        .mockReturnValueOnce(
+          throwError(() => ({
+            isAxiosError: true,
+            message: 'Request failed with status code 404',
+            response: { status: 404, data: 'Not Found' },
+          })),
+        )
+        .mockReturnValueOnce(of({ data: content, headers: {} }));
+      await expect(
+        lastValueFrom(service.downloadFile('file id')),
+      ).resolves.toEqual(content);
+      expect(postMock).toHaveBeenCalledTimes(2);
+    });
+    it('should read files from disk in local mode', async () => {
+      postMock.mockReturnValueOnce(
+        of(axiosRes(telegramRes({ ...file, file_path: __filename }))),
+      );
+      const stream = await lastValueFrom(service.downloadFileStream('file id'));
+      expect(stream).toBeInstanceOf(Readable);
+      stream.destroy();
+      expect(getMock).not.toHaveBeenCalled();
+    });
+    it('should write the file to the destination', async () => {
+      const destination = join(tmpdir(), `telegram-download-${Date.now()}`);
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(file))));
+      getMock.mockReturnValueOnce(
+        of({ data: Readable.from([content]), headers: {} }),
+      );
+      await expect(
+        lastValueFrom(service.downloadFileTo('file id', destination)),
+      ).resolves.toBe(destination);
+      expect(readFileSync(destination)).toEqual(content);
+      unlinkSync(destination);
+    });
+    it('should stop streams going over the size limit', async () => {
+      postMock.mockReturnValueOnce(
+        of(axiosRes(telegramRes({ ...file, file_size: undefined }))),
+      );
+      getMock.mockReturnValueOnce(
+        of({ data: Readable.from([content, content]), headers: {} }),
+      );
+      const stream = await lastValueFrom(
+        service.downloadFileStream('file id', { maxSize: 6 }),
+      );
+      const chunks: Buffer[] = [];
+      await expect(
+        new Promise((resolve, reject) =>
+          stream
+            .on('data', (chunk) => chunks.push(chunk))
+            .on('end', resolve)
+            .on('error', reject),
+        ),
+      ).rejects.toThrow(
+        'File of 8 bytes exceeds the download limit of 6 bytes',
+      );
+      expect(Buffer.concat(chunks)).toEqual(content);
+    });
+    it('should remove the partial file when the download fails', async () => {
+      const destination = join(tmpdir(), `telegram-download-${Date.now()}`);
+      postMock.mockReturnValueOnce(
+        of(axiosRes(telegramRes({ ...file, file_size: undefined }))),
+      );
+      getMock.mockReturnValueOnce(
+        of({ data: Readable.from([content, content]), headers: {} }),
+      );
+      await expect(
+        lastValueFrom(
+          service.downloadFileTo('file id', destination, { maxSize: 6 }),
+        ),
+      ).rejects.toThrow('exceeds the download limit');
+      expect(existsSync(destination)).toBe(false);
+    });
+  });
   describe('kickChatMember', () => {
     it('should get the response for kickChatMember', (done) => {
       postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
@@ -723,7 +1229,7 @@ describe('TelegramService', () => {
             media: Buffer.alloc(10),
           },
         })
-        .subscribe(telegramObserver(done, message, 1));
+        .subscribe(telegramObserver(done, message, 1, multiPartHeader));
     });
     it('should get the response for editMessageMedia(true)', (done) => {
       postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
@@ -737,6 +1243,22 @@ describe('TelegramService', () => {
         })
         .subscribe(telegramObserver(done, true, 1));
     });
+    it('should send the URL of media built from a URL', async () => {
+      postMock.mockReturnValueOnce(of(axiosRes(telegramRes(true))));
+      await lastValueFrom(
+        service.editMessageMedia({
+          inline_message_id: '54321',
+          media: {
+            type: 'photo',
+            media: InputFile.fromUrl('https://example.com/a.jpg'),
+          },
+        }),
+      );
+      expect(postMock.mock.calls[0][1]).toEqual({
+        inline_message_id: '54321',
+        media: { type: 'photo', media: 'https://example.com/a.jpg' },
+      });
+    });
   });
   describe('editMessageReplyMarkup', () => {
     it('should get the response for editMessageReplyMarkup(message)', (done) => {
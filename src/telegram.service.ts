@@ -1,24 +1,162 @@
-import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { AxiosRequestConfig } from 'axios';
-import { Observable } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
-import { TelegramModuleOptions } from './interfaces';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { isAbsolute } from 'path';
+import {
+  defer,
+  identity,
+  lastValueFrom,
+  Observable,
+  of,
+  Subject,
+  throwError,
+} from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
+import { pipeline, Readable, Transform } from 'stream';
+import { inspect, promisify } from 'util';
+import {
+  createTelegramError,
+  createTelegramResponseError,
+  TelegramChatMigratedError,
+  TelegramNotFoundError,
+} from './errors';
+import {
+  TelegramCallHook,
+  TelegramCallOptions,
+  TelegramChatMigration,
+  TelegramDownloadOptions,
+  TelegramModuleOptions,
+} from './interfaces';
 import * as Telegram from './interfaces/telegramTypes.interface';
+import { maskBotKey, redactError } from './telegram.bot-key';
 import { TELEGRAM_MODULE_OPTIONS } from './telegram.constants';
+import { runCallHooks } from './telegram.hooks';
+import { buildRequestBody } from './telegram.multipart';
+import { TelegramRateLimiter } from './telegram.rate-limiter';
+import { retryTelegramCall } from './telegram.retry';
+
+const DEFAULT_API_ROOT = 'https://api.telegram.org';
+const DEFAULT_MAX_DOWNLOAD_SIZE = 20 * 1024 * 1024;
+const RATE_LIMITED_METHOD = /^(send|edit)/;
+/**
+ * How much longer than Telegram holds a long polling `getUpdates` call the request may take.
+ */
+const LONG_POLLING_MARGIN = 10000;
 
 @Injectable()
 export class TelegramService implements OnModuleInit {
+  private readonly logger = new Logger(TelegramService.name);
   private url: string;
+  private fileUrl: string;
+  private readonly rateLimiter?: TelegramRateLimiter;
+  private readonly chatMigrated = new Subject<TelegramChatMigration>();
+  private readonly hooks: TelegramCallHook[];
+  private callOptions: TelegramCallOptions;
+  /**
+   * The service itself, also for the services returned by `withOptions()`, which inherit from it
+   */
+  private readonly root: TelegramService = this;
+
+  /**
+   * Emits every time a call reports that its group was upgraded to a supergroup.
+   */
+  readonly chatMigrations = this.chatMigrated.asObservable();
+
+  /**
+   * The bot, as returned by the last successful `getMe` call. It is made during initialization
+   * when `validateBotKey` is set, and is undefined until then otherwise.
+   */
+  botInfo?: Telegram.TelegramUser;
 
   constructor(
     @Inject(TELEGRAM_MODULE_OPTIONS)
     private readonly options: TelegramModuleOptions,
     private readonly http: HttpService,
-  ) {}
+  ) {
+    this.hooks = [...(options.hooks || [])];
+    this.callOptions = { timeout: options.requestTimeout };
+    if (options.rateLimit) {
+      this.rateLimiter = new TelegramRateLimiter(options.rateLimit);
+    }
+  }
+
+  async onModuleInit() {
+    const apiRoot = (this.options.apiRoot || DEFAULT_API_ROOT).replace(
+      /\/+$/,
+      '',
+    );
+    const environment = this.options.testEnvironment ? 'test/' : '';
+    this.url = `${apiRoot}/bot${this.options.botKey}/${environment}`;
+    this.fileUrl = `${apiRoot}/file/bot${this.options.botKey}/${environment}`;
+    if (this.options.validateBotKey) {
+      await this.validateBotKey();
+    }
+  }
+
+  /**
+   * Calls `getMe` to find out whether the bot key works, failing the application
+   * start unless `validateBotKey` is `'warn'`.
+   */
+  private async validateBotKey() {
+    try {
+      await lastValueFrom(this.getMe());
+    } catch (error) {
+      const message = `Telegram bot key ${maskBotKey(
+        this.options.botKey,
+      )} could not be validated: ${error?.message}`;
+      if (this.options.validateBotKey !== 'warn') {
+        throw new Error(message);
+      }
+      this.logger.warn(message);
+    }
+  }
 
-  onModuleInit() {
-    this.url = `https://api.telegram.org/bot${this.options.botKey}/`;
+  /**
+   * What `JSON.stringify()` shows of the service: the bot, without its key.
+   */
+  toJSON() {
+    return {
+      name: this.options.name,
+      botKey: maskBotKey(this.options.botKey),
+      botInfo: this.botInfo,
+    };
+  }
+
+  /**
+   * What `console.log()` shows of the service, the same as `toJSON()`.
+   */
+  [inspect.custom]() {
+    return this.toJSON();
+  }
+
+  /**
+   * Returns the link a file can be downloaded from, given the `file_path` returned by `getFile`.
+   * The link contains the bot token, so it must not be shared.
+   */
+  getFileUrl(filePath: string): string {
+    return this.fileUrl + filePath;
+  }
+
+  /**
+   * Registers a hook running before and after every Bot API call, after those already registered.
+   */
+  addHook(hook: TelegramCallHook) {
+    this.hooks.push(hook);
+  }
+
+  /**
+   * Returns the service sending its requests with the given options, added to those it has already,
+   * e.g. `telegram.withOptions({ timeout: 5000, signal }).sendMessage(params)`.
+   */
+  withOptions(options: TelegramCallOptions): this {
+    const service: this = Object.create(this);
+    service.callOptions = {
+      ...this.callOptions,
+      ...options,
+      axios: { ...this.callOptions.axios, ...options.axios },
+    };
+    return service;
   }
 
   private doCall<T>(
@@ -26,29 +164,149 @@ export class TelegramService implements OnModuleInit {
     data?: any,
     axiosOptions?: AxiosRequestConfig,
   ): Observable<T> {
-    return this.http
-      .post<Telegram.TelegramResponse<T>>(this.url + url, data, axiosOptions)
-      .pipe(
-        map((res: any) => {
-          if (!res.data.ok) {
-            throw new Telegram.TelegramException(
-              res.data.description,
-              res.data.error_code.toString(),
-            );
-          }
-          return res.data.result;
-        }),
-        catchError((error: Error) => {
-          throw new Telegram.TelegramException(error.message);
-        }),
+    return runCallHooks(this.hooks, url, data, (params) =>
+      this.send<T>(url, params, {
+        ...this.getAxiosOptions(),
+        ...axiosOptions,
+      }),
+    );
+  }
+
+  private getAxiosOptions(): AxiosRequestConfig {
+    const { timeout, signal, axios } = this.callOptions;
+    return {
+      ...axios,
+      ...(timeout !== undefined && { timeout }),
+      ...(signal && { signal }),
+    };
+  }
+
+  private send<T>(
+    url: string,
+    data?: any,
+    axiosOptions?: AxiosRequestConfig,
+  ): Observable<T> {
+    const context: Telegram.TelegramErrorContext = {
+      method: url,
+      params: data,
+    };
+    const request = defer(() => {
+      const body = buildRequestBody(data);
+      return this.http.post<Telegram.TelegramResponse<T>>(
+        this.url + url,
+        body.data,
+        body.headers
+          ? {
+              ...axiosOptions,
+              headers: { ...axiosOptions?.headers, ...body.headers },
+            }
+          : axiosOptions,
       );
+    });
+    return (
+      this.rateLimiter && RATE_LIMITED_METHOD.test(url)
+        ? this.rateLimiter
+            .schedule(data?.chat_id)
+            .pipe(switchMap(() => request))
+        : request
+    ).pipe(
+      map((res: any) => {
+        if (!res.data.ok) {
+          throw createTelegramResponseError(res.data, context);
+        }
+        return res.data.result;
+      }),
+      catchError((error) =>
+        throwError(() =>
+          createTelegramError(redactError(error, this.options.botKey), context),
+        ),
+      ),
+      this.options.retry ? retryTelegramCall<T>(this.options.retry) : identity,
+      catchError((error) =>
+        error instanceof TelegramChatMigratedError
+          ? this.handleChatMigration<T>(error, url, data, axiosOptions)
+          : throwError(() => error),
+      ),
+    );
+  }
+
+  private handleChatMigration<T>(
+    error: TelegramChatMigratedError,
+    url: string,
+    data: any,
+    axiosOptions?: AxiosRequestConfig,
+  ): Observable<T> {
+    const fromChatId = data?.chat_id;
+    if (fromChatId === undefined || fromChatId === error.migrateToChatId) {
+      return throwError(() => error);
+    }
+    const migration: TelegramChatMigration = {
+      fromChatId,
+      toChatId: error.migrateToChatId,
+      method: url,
+    };
+    this.chatMigrated.next(migration);
+    this.options.onChatMigrated?.(migration);
+    if (!this.options.followChatMigration) {
+      return throwError(() => error);
+    }
+    return this.doCall<T>(
+      url,
+      { ...data, chat_id: error.migrateToChatId },
+      axiosOptions,
+    );
   }
 
   /**
    * Use this method to receive incoming updates using long polling.
    */
   getUpdates(data: Telegram.GetUpdatesParams): Observable<Telegram.Update[]> {
-    return this.doCall<Telegram.Update[]>(this.getUpdates.name, data);
+    const timeout = this.callOptions.timeout;
+    const longPolling = data?.timeout ? data.timeout * 1000 : 0;
+    return this.doCall<Telegram.Update[]>(
+      this.getUpdates.name,
+      data,
+      longPolling
+        ? { timeout: Math.max(timeout || 0, longPolling + LONG_POLLING_MARGIN) }
+        : undefined,
+    );
+  }
+
+  /**
+   * Use this method to specify a URL and receive incoming updates via an outgoing webhook.
+   * Whenever there is an update for the bot, Telegram will send an HTTPS POST request to the specified URL,
+   * containing a JSON-serialized Update. Returns True on success.
+   *
+   * You will not be able to receive updates using getUpdates for as long as an outgoing webhook is set up.
+   *
+   * The `secretToken` of the webhook options is sent as `secret_token` unless another one is given.
+   */
+  setWebhook(data: Telegram.TelegramSetWebhookParams): Observable<true> {
+    const secretToken = this.options.webhook?.secretToken;
+    return this.doCall<true>(
+      this.setWebhook.name,
+      secretToken ? { secret_token: secretToken, ...data } : data,
+    );
+  }
+
+  /**
+   * Use this method to remove webhook integration if you decide to switch back to getUpdates. Returns True on success.
+   */
+  deleteWebhook(
+    data: Telegram.TelegramDeleteWebhookParams = {},
+  ): Observable<true> {
+    return this.doCall<true>(this.deleteWebhook.name, data);
+  }
+
+  /**
+   * Use this method to get current webhook status. Requires no parameters.
+   * On success, returns a WebhookInfo object. If the bot is using getUpdates, will return an object with the url field empty.
+   */
+  getWebhookInfo(): Observable<Telegram.TelegramWebhookInfo> {
+    return this.doCall<Telegram.TelegramWebhookInfo>(
+      this.getWebhookInfo.name,
+      {},
+    );
   }
 
   /**
@@ -56,7 +314,9 @@ export class TelegramService implements OnModuleInit {
    * Returns basic information about the bot in form of a User object.
    */
   getMe(): Observable<Telegram.TelegramUser> {
-    return this.doCall<Telegram.TelegramUser>(this.getMe.name, {});
+    return this.doCall<Telegram.TelegramUser>(this.getMe.name, {}).pipe(
+      tap((bot) => (this.root.botInfo = bot)),
+    );
   }
 
   /**
@@ -145,14 +405,7 @@ export class TelegramService implements OnModuleInit {
   sendPhoto(
     data: Telegram.TelegramSendPhotoParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendPhoto.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.photo === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendPhoto.name, data);
   }
 
   /**
@@ -165,14 +418,7 @@ export class TelegramService implements OnModuleInit {
   sendAudio(
     data: Telegram.TelegramSendAudioParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendAudio.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.audio === 'object' || typeof data.thumb === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendAudio.name, data);
   }
 
   /**
@@ -182,14 +428,7 @@ export class TelegramService implements OnModuleInit {
   sendDocument(
     data: Telegram.TelegramSendDocumentParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendDocument.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.document === 'object' || typeof data.thumb === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendDocument.name, data);
   }
 
   /**
@@ -200,14 +439,7 @@ export class TelegramService implements OnModuleInit {
   sendVideo(
     data: Telegram.TelegramSendVideoParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendVideo.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.video === 'object' || typeof data.thumb === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendVideo.name, data);
   }
 
   /**
@@ -218,18 +450,7 @@ export class TelegramService implements OnModuleInit {
   sendAnimation(
     data: Telegram.TelegramSendAnimationParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(
-      this.sendAnimation.name,
-      data,
-      {
-        headers: {
-          'Content-Type':
-            typeof data.animation === 'object' || typeof data.thumb === 'object'
-              ? 'multipart/form-data'
-              : 'application/json',
-        },
-      },
-    );
+    return this.doCall<Telegram.TelegramMessage>(this.sendAnimation.name, data);
   }
 
   /**
@@ -241,14 +462,7 @@ export class TelegramService implements OnModuleInit {
   sendVoice(
     data: Telegram.TelegramSendVoiceParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendVoice.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.voice === 'object' || typeof data.thumb === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendVoice.name, data);
   }
 
   /**
@@ -258,23 +472,13 @@ export class TelegramService implements OnModuleInit {
   sendVideoNote(
     data: Telegram.TelegramSendVideoNoteParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(
-      this.sendVideoNote.name,
-      data,
-      {
-        headers: {
-          'Content-Type':
-            typeof data.video_note === 'object' ||
-            typeof data.thumb === 'object'
-              ? 'multipart/form-data'
-              : 'application/json',
-        },
-      },
-    );
+    return this.doCall<Telegram.TelegramMessage>(this.sendVideoNote.name, data);
   }
 
   /**
    * Use this method to send a group of photos or videos as an album. On success, an array of the sent Messages is returned.
+   *
+   * Files to upload can be passed as `media` or `thumb` of the items, they are attached with `attach://` references for you.
    */
   sendMediaGroup(
     data: Telegram.TelegramSendMediaGroupParams,
@@ -282,11 +486,6 @@ export class TelegramService implements OnModuleInit {
     return this.doCall<Telegram.TelegramMessage[]>(
       this.sendMediaGroup.name,
       data,
-      {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      },
     );
   }
 
@@ -387,6 +586,7 @@ export class TelegramService implements OnModuleInit {
    * For the moment, bots can download files of up to 20MB in size. On success, a File object is returned.
    * The file can then be downloaded via the link
    * `https://api.telegram.org/file/bot<token>/<file_path>`, where `<file_path>` is taken from the response.
+   * `getFileUrl` builds this link for the configured API root.
    * It is guaranteed that the link will be valid for at least 1 hour.
    * When the link expires, a new one can be requested by calling getFile again.
    *
@@ -399,6 +599,158 @@ export class TelegramService implements OnModuleInit {
     return this.doCall<Telegram.TelegramFile>(this.getFile.name, data);
   }
 
+  /**
+   * Downloads a file into memory. Calls `getFile` to find the file, and again if the download link expired in between.
+   * On success, the content of the file is returned.
+   */
+  downloadFile(
+    fileId: string,
+    options?: TelegramDownloadOptions,
+  ): Observable<Buffer> {
+    return this.downloadFileContent<ArrayBuffer>(
+      fileId,
+      'arraybuffer',
+      options,
+    ).pipe(map((content) => Buffer.from(content)));
+  }
+
+  /**
+   * Downloads a file as a stream. Calls `getFile` to find the file, and again if the download link expired in between.
+   * On success, a stream of the content of the file is returned.
+   */
+  downloadFileStream(
+    fileId: string,
+    options?: TelegramDownloadOptions,
+  ): Observable<Readable> {
+    return this.downloadFileContent<Readable>(fileId, 'stream', options);
+  }
+
+  /**
+   * Downloads a file to the given path. Calls `getFile` to find the file, and again if the download link expired in between.
+   * On success, the path the file was written to is returned.
+   */
+  downloadFileTo(
+    fileId: string,
+    destination: string,
+    options?: TelegramDownloadOptions,
+  ): Observable<string> {
+    return this.downloadFileStream(fileId, options).pipe(
+      switchMap((stream) =>
+        promisify(pipeline)(stream, createWriteStream(destination)).catch(
+          async (error) => {
+            // don't leave a partial file behind
+            await fs.unlink(destination).catch(() => undefined);
+            throw error;
+          },
+        ),
+      ),
+      map(() => destination),
+    );
+  }
+
+  /**
+   * Passes the stream through, failing it with `tooLarge` once more than `maxSize` bytes went by.
+   */
+  private limitStream(
+    stream: Readable,
+    maxSize: number,
+    tooLarge: (size: number) => Error,
+  ): Readable {
+    if (maxSize === Infinity) {
+      return stream;
+    }
+    let received = 0;
+    const limited = new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        received += chunk.length;
+        if (received > maxSize) {
+          stream.destroy();
+          callback(tooLarge(received));
+        } else {
+          callback(null, chunk);
+        }
+      },
+    });
+    stream.on('error', (error) => limited.destroy(error));
+    return stream.pipe(limited);
+  }
+
+  private downloadFileContent<T>(
+    fileId: string,
+    responseType: 'arraybuffer' | 'stream',
+    options: TelegramDownloadOptions = {},
+  ): Observable<T> {
+    const context: Telegram.TelegramErrorContext = {
+      method: 'downloadFile',
+      params: { file_id: fileId },
+    };
+    const maxSize =
+      options.maxSize ??
+      this.options.maxDownloadSize ??
+      (this.options.apiRoot ? Infinity : DEFAULT_MAX_DOWNLOAD_SIZE);
+    const tooLarge = (size: number) =>
+      new Telegram.TelegramException(
+        `File of ${size} bytes exceeds the download limit of ${maxSize} bytes`,
+        undefined,
+        undefined,
+        context,
+      );
+    const download = () =>
+      this.getFile({ file_id: fileId }).pipe(
+        switchMap((file) => {
+          if (file.file_size > maxSize) {
+            return throwError(() => tooLarge(file.file_size));
+          }
+          if (isAbsolute(file.file_path)) {
+            // a self-hosted server in local mode returns the path on its disk
+            return defer(() =>
+              responseType === 'stream'
+                ? of(createReadStream(file.file_path))
+                : fs.readFile(file.file_path),
+            ) as Observable<any>;
+          }
+          return this.http
+            .get<T>(this.getFileUrl(file.file_path), {
+              ...this.getAxiosOptions(),
+              responseType,
+              maxContentLength: maxSize === Infinity ? -1 : maxSize,
+            })
+            .pipe(
+              map((res) => {
+                const size = Number(res.headers['content-length']);
+                if (size > maxSize) {
+                  (res.data as any).destroy?.();
+                  throw tooLarge(size);
+                }
+                // axios only enforces maxContentLength on buffered responses
+                return responseType === 'stream'
+                  ? (this.limitStream(
+                      res.data as any,
+                      maxSize,
+                      tooLarge,
+                    ) as any)
+                  : res.data;
+              }),
+              catchError((error) =>
+                throwError(() =>
+                  createTelegramError(
+                    redactError(error, this.options.botKey),
+                    context,
+                  ),
+                ),
+              ),
+            );
+        }),
+      );
+    return download().pipe(
+      catchError((error) =>
+        error instanceof TelegramNotFoundError
+          ? download()
+          : throwError(() => error),
+      ),
+    );
+  }
+
   /**
    * Use this method to kick a user from a group, a supergroup or a channel.
    * In the case of supergroups and channels, the user will not be able to return to the group on their own using invite links, etc.,
@@ -474,11 +826,7 @@ export class TelegramService implements OnModuleInit {
    * if the ‘All Members Are Admins’ setting is off in the target group.
    */
   setChatPhoto(data: Telegram.TelegramSetChatPhotoParams): Observable<true> {
-    return this.doCall<true>(this.setChatPhoto.name, data, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+    return this.doCall<true>(this.setChatPhoto.name, data);
   }
 
   /**
@@ -671,11 +1019,6 @@ export class TelegramService implements OnModuleInit {
     return this.doCall<Telegram.TelegramMessage | true>(
       this.editMessageMedia.name,
       data,
-      {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      },
     );
   }
 
@@ -727,14 +1070,7 @@ export class TelegramService implements OnModuleInit {
   sendSticker(
     data: Telegram.TelegramSendStickerParams,
   ): Observable<Telegram.TelegramMessage> {
-    return this.doCall<Telegram.TelegramMessage>(this.sendSticker.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.sticker === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<Telegram.TelegramMessage>(this.sendSticker.name, data);
   }
 
   /**
@@ -759,11 +1095,6 @@ export class TelegramService implements OnModuleInit {
     return this.doCall<Telegram.TelegramFile>(
       this.uploadStickerFile.name,
       data,
-      {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      },
     );
   }
 
@@ -774,14 +1105,7 @@ export class TelegramService implements OnModuleInit {
   createNewStickerSet(
     data: Telegram.TelegramCreateNewStickerSetParams,
   ): Observable<true> {
-    return this.doCall<true>(this.createNewStickerSet.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.png_sticker === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<true>(this.createNewStickerSet.name, data);
   }
 
   /**
@@ -790,14 +1114,7 @@ export class TelegramService implements OnModuleInit {
   addStickerToSet(
     data: Telegram.TelegramAddStickerToSetParams,
   ): Observable<true> {
-    return this.doCall<true>(this.addStickerToSet.name, data, {
-      headers: {
-        'Content-Type':
-          typeof data.png_sticker === 'object'
-            ? 'multipart/form-data'
-            : 'application/json',
-      },
-    });
+    return this.doCall<true>(this.addStickerToSet.name, data);
   }
 
   /**
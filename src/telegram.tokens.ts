@@ -0,0 +1,13 @@
+import { Type } from '@nestjs/common';
+import { TelegramService } from './telegram.service';
+
+/**
+ * Token of a provider of the bot registered with the given name, e.g. `getTelegramToken('ops', TelegramPollingService)`.
+ * The providers of the bot registered without a name are injected by their class.
+ */
+export function getTelegramToken(
+  name?: string,
+  provider: Type<unknown> = TelegramService,
+): string | Type<unknown> {
+  return name ? `${provider.name}:${name}` : provider;
+}
@@ -0,0 +1,43 @@
+import { Update } from './interfaces/telegramTypes.interface';
+import {
+  getUpdateType,
+  isCallbackQueryUpdate,
+  isMessageUpdate,
+  isUpdateOfType,
+} from './telegram.update-types';
+
+const from = { id: 1, is_bot: false, first_name: 'Ada' };
+
+const callbackUpdate: Update = {
+  update_id: 2,
+  callback_query: { id: '7', from, chat_instance: '1', data: 'vote:up' },
+};
+
+const inlineUpdate: Update = {
+  update_id: 3,
+  inline_query: { id: '9', from, query: 'cats', offset: '' },
+};
+
+describe('update types', () => {
+  it('should return the field holding the content of the update', () => {
+    expect(getUpdateType(callbackUpdate)).toBe('callback_query');
+    expect(getUpdateType(inlineUpdate)).toBe('inline_query');
+  });
+
+  it('should return undefined for updates of an unknown type', () => {
+    expect(
+      getUpdateType({ update_id: 4, business_message: {} } as Update),
+    ).toBeUndefined();
+  });
+
+  it('should narrow updates of the given type', () => {
+    const update: Update = callbackUpdate;
+    expect(isMessageUpdate(update)).toBe(false);
+    expect(isCallbackQueryUpdate(update)).toBe(true);
+    if (isCallbackQueryUpdate(update)) {
+      expect(update.callback_query.data).toBe('vote:up');
+    }
+    expect(isUpdateOfType(inlineUpdate, 'inline_query')).toBe(true);
+    expect(isUpdateOfType(inlineUpdate, 'chosen_inline_result')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  Update,
+  UpdateOf,
+  UpdateType,
+} from './interfaces/telegramTypes.interface';
+
+/**
+ * Every field an update can hold its content in. An update holds exactly one of them.
+ */
+export const UPDATE_TYPES: UpdateType[] = [
+  'message',
+  'edited_message',
+  'channel_post',
+  'edited_channel_post',
+  'inline_query',
+  'chosen_inline_result',
+  'callback_query',
+  'shipping_query',
+  'pre_checkout_query',
+  'poll',
+  'poll_answer',
+  'my_chat_member',
+  'chat_member',
+  'chat_join_request',
+];
+
+/**
+ * Returns the field holding the content of the update, or `undefined` for a type this version does not know.
+ */
+export function getUpdateType(update: Update): UpdateType | undefined {
+  return UPDATE_TYPES.find((type) => update[type] !== undefined);
+}
+
+/**
+ * Whether the update holds content of the given type, narrowing it so the field can be used without a check.
+ */
+export function isUpdateOfType<T extends UpdateType>(
+  update: Update,
+  type: T,
+): update is UpdateOf<T> {
+  return update[type] !== undefined;
+}
+
+export const isMessageUpdate = (
+  update: Update,
+): update is UpdateOf<'message'> => isUpdateOfType(update, 'message');
+
+export const isEditedMessageUpdate = (
+  update: Update,
+): update is UpdateOf<'edited_message'> =>
+  isUpdateOfType(update, 'edited_message');
+
+export const isChannelPostUpdate = (
+  update: Update,
+): update is UpdateOf<'channel_post'> => isUpdateOfType(update, 'channel_post');
+
+export const isEditedChannelPostUpdate = (
+  update: Update,
+): update is UpdateOf<'edited_channel_post'> =>
+  isUpdateOfType(update, 'edited_channel_post');
+
+export const isInlineQueryUpdate = (
+  update: Update,
+): update is UpdateOf<'inline_query'> => isUpdateOfType(update, 'inline_query');
+
+export const isChosenInlineResultUpdate = (
+  update: Update,
+): update is UpdateOf<'chosen_inline_result'> =>
+  isUpdateOfType(update, 'chosen_inline_result');
+
+export const isCallbackQueryUpdate = (
+  update: Update,
+): update is UpdateOf<'callback_query'> =>
+  isUpdateOfType(update, 'callback_query');
+
+export const isShippingQueryUpdate = (
+  update: Update,
+): update is UpdateOf<'shipping_query'> =>
+  isUpdateOfType(update, 'shipping_query');
+
+export const isPreCheckoutQueryUpdate = (
+  update: Update,
+): update is UpdateOf<'pre_checkout_query'> =>
+  isUpdateOfType(update, 'pre_checkout_query');
+
+export const isPollUpdate = (update: Update): update is UpdateOf<'poll'> =>
+  isUpdateOfType(update, 'poll');
+
+export const isPollAnswerUpdate = (
+  update: Update,
+): update is UpdateOf<'poll_answer'> => isUpdateOfType(update, 'poll_answer');
+
+export const isMyChatMemberUpdate = (
+  update: Update,
+): update is UpdateOf<'my_chat_member'> =>
+  isUpdateOfType(update, 'my_chat_member');
+
+export const isChatMemberUpdate = (
+  update: Update,
+): update is UpdateOf<'chat_member'> => isUpdateOfType(update, 'chat_member');
+
+export const isChatJoinRequestUpdate = (
+  update: Update,
+): update is UpdateOf<'chat_join_request'> =>
+  isUpdateOfType(update, 'chat_join_request');